@@ -0,0 +1,175 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { ChevronLeft, ChevronRight, Loader2, RotateCw, Trash2, Undo2 } from "lucide-react";
+import { renderPdfThumbnails } from "@/lib/pdf-thumbnails";
+import { cn } from "@/lib/utils";
+import type { PageEdit, PageRotation } from "@shared/schema";
+
+interface OrganizerPage {
+  page: number;
+  rotation: PageRotation;
+  deleted: boolean;
+}
+
+const THUMBNAIL_WIDTH = 160;
+
+function initialPages(total: number, edits: PageEdit[] | null): OrganizerPage[] {
+  const pages: OrganizerPage[] = (edits ?? []).map(e => ({ ...e, deleted: false }));
+  const kept = new Set(pages.map(p => p.page));
+  for (let page = 1; page <= total; page++) {
+    if (!kept.has(page)) pages.push({ page, rotation: 0, deleted: edits !== null });
+  }
+  return pages;
+}
+
+// Nessuna modifica se l'ordine è quello originale, senza eliminazioni né rotazioni
+function toPageEdits(pages: OrganizerPage[]): PageEdit[] | null {
+  const kept = pages.filter(p => !p.deleted);
+  const unchanged = kept.length === pages.length && kept.every((p, i) => p.page === i + 1 && p.rotation === 0);
+  return unchanged ? null : kept.map(({ page, rotation }) => ({ page, rotation }));
+}
+
+export function PageOrganizer({
+  file,
+  edits,
+  open,
+  onOpenChange,
+  onSave,
+}: {
+  file: File;
+  edits: PageEdit[] | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (edits: PageEdit[] | null) => void;
+}) {
+  const [thumbnails, setThumbnails] = useState<Record<number, string>>({});
+  const [pages, setPages] = useState<OrganizerPage[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const controller = new AbortController();
+    setThumbnails({});
+    setPages([]);
+    setError(null);
+
+    renderPdfThumbnails(file, THUMBNAIL_WIDTH, (page, total, dataUrl) => {
+      if (page === 1) setPages(initialPages(total, edits));
+      setThumbnails(prev => ({ ...prev, [page]: dataUrl }));
+    }, controller.signal).catch((err: any) => {
+      if (!controller.signal.aborted) setError(err.message || "Impossibile leggere il PDF");
+    });
+
+    return () => controller.abort();
+  }, [file, open]);
+
+  const update = (index: number, change: Partial<OrganizerPage>) => {
+    setPages(prev => prev.map((p, i) => (i === index ? { ...p, ...change } : p)));
+  };
+
+  const move = (index: number, offset: number) => {
+    setPages(prev => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const updated = [...prev];
+      [updated[index], updated[target]] = [updated[target], updated[index]];
+      return updated;
+    });
+  };
+
+  const keptCount = pages.filter(p => !p.deleted).length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Organizza pagine</DialogTitle>
+          <DialogDescription className="truncate">
+            {file.name} · {pages.length > 0 ? `${keptCount} di ${pages.length} pagine mantenute` : "Caricamento anteprime..."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : (
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3 max-h-[60vh] overflow-y-auto p-1">
+            {pages.map((p, index) => (
+              <div
+                key={p.page}
+                data-testid={`organizer-page-${p.page}`}
+                className={cn("rounded-md border bg-muted/30 p-2 space-y-2", p.deleted && "opacity-40")}
+              >
+                <div className="h-40 flex items-center justify-center overflow-hidden">
+                  {thumbnails[p.page] ? (
+                    <img
+                      src={thumbnails[p.page]}
+                      alt={`Pagina ${p.page}`}
+                      className="max-h-full max-w-full shadow-sm transition-transform"
+                      style={{ transform: `rotate(${p.rotation}deg)` }}
+                    />
+                  ) : (
+                    <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                  )}
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-xs font-mono text-muted-foreground">p. {p.page}</span>
+                  <div className="flex">
+                    <Button variant="ghost" size="icon" className="h-7 w-7" disabled={index === 0} onClick={() => move(index, -1)} title="Sposta prima">
+                      <ChevronLeft className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-7 w-7" disabled={index === pages.length - 1} onClick={() => move(index, 1)} title="Sposta dopo">
+                      <ChevronRight className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      disabled={p.deleted}
+                      onClick={() => update(index, { rotation: ((p.rotation + 90) % 360) as PageRotation })}
+                      title="Ruota di 90°"
+                    >
+                      <RotateCw className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 hover:text-destructive"
+                      onClick={() => update(index, { deleted: !p.deleted })}
+                      title={p.deleted ? "Ripristina" : "Elimina"}
+                    >
+                      {p.deleted ? <Undo2 className="h-4 w-4" /> : <Trash2 className="h-4 w-4" />}
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button variant="ghost" onClick={() => setPages(prev => initialPages(prev.length, null))} disabled={pages.length === 0}>
+            Ripristina originale
+          </Button>
+          <Button
+            data-testid="button-organizer-save"
+            onClick={() => {
+              onSave(toPageEdits(pages));
+              onOpenChange(false);
+            }}
+            disabled={pages.length === 0 || keptCount === 0}
+          >
+            Applica
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
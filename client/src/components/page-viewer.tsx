@@ -0,0 +1,90 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+
+// token: lo stesso dei download dell'interfaccia (il server registra ogni accesso)
+export function thumbnailUrl(sessionId: string, token: string, fileName: string, page: number, size: "small" | "large" = "small") {
+  return `/api/thumbnail/${sessionId}/${encodeURIComponent(fileName)}?page=${page}&size=${size}&token=${token}`;
+}
+
+export interface ViewerTarget {
+  fileName: string;
+  pageCount: number;
+  initialPage: number;
+  // Prima pagina della parte nel documento di partenza, per mostrare la corrispondenza
+  sourceStartPage?: number;
+}
+
+// Visualizzatore delle pagine di un file convertito, con immagini generate dal server
+export function PageViewer({
+  sessionId,
+  token,
+  target,
+  onClose,
+}: {
+  sessionId: string;
+  token: string;
+  target: ViewerTarget | null;
+  onClose: () => void;
+}) {
+  const [page, setPage] = useState(1);
+  const [loadedSrc, setLoadedSrc] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (target) setPage(target.initialPage);
+  }, [target]);
+
+  if (!target) return null;
+
+  const src = thumbnailUrl(sessionId, token, target.fileName, page, "large");
+
+  const go = (offset: number) => setPage((p) => Math.min(target.pageCount, Math.max(1, p + offset)));
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent
+        className="max-w-3xl"
+        onKeyDown={(e) => {
+          if (e.key === "ArrowLeft") go(-1);
+          if (e.key === "ArrowRight") go(1);
+        }}
+      >
+        <DialogHeader>
+          <DialogTitle className="truncate">{target.fileName}</DialogTitle>
+          <DialogDescription>
+            Pagina {page} di {target.pageCount}
+            {target.sourceStartPage !== undefined && ` · pagina ${target.sourceStartPage + page - 1} del documento originale`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="relative flex items-center justify-center bg-muted/30 rounded-md min-h-[60vh] max-h-[70vh] overflow-auto">
+          {loadedSrc !== src && <Loader2 className="absolute h-6 w-6 animate-spin text-muted-foreground" />}
+          <img
+            data-testid="img-viewer-page"
+            src={src}
+            alt={`Pagina ${page}`}
+            onLoad={() => setLoadedSrc(src)}
+            onError={() => setLoadedSrc(src)}
+            className="max-w-full shadow-md"
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Button variant="outline" size="sm" onClick={() => go(-1)} disabled={page <= 1} className="gap-1">
+            <ChevronLeft className="h-4 w-4" /> Precedente
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => go(1)} disabled={page >= target.pageCount} className="gap-1">
+            Successiva <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,43 @@
+import type { PdfALevelId } from "@shared/schema";
+
+// Conversioni avviate da questo browser e non ancora concluse.
+// Se la pagina viene ricaricata o chiusa durante la conversione, il Converter
+// le propone con "Riprendi": il server ripete gli eventi SSE già inviati,
+// oppure GET /api/jobs/:id restituisce il risultato se il job è terminato.
+
+const STORAGE_KEY = "pdfa-active-sessions";
+
+export interface ActiveSession {
+  sessionId: string;
+  // Chiave ricevuta da POST /api/convert: serve per il token di download dell'interfaccia
+  accessKey: string;
+  startedAt: string;
+  files: { name: string; size: number }[];
+  merge: boolean;
+  customName: string;
+  pdfaLevel: PdfALevelId;
+}
+
+export function listActiveSessions(): ActiveSession[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+function store(sessions: ActiveSession[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(sessions));
+  } catch {}
+}
+
+export function rememberSession(session: ActiveSession) {
+  store([...listActiveSessions().filter((s) => s.sessionId !== session.sessionId), session]);
+}
+
+// Da chiamare quando il job è concluso (risultato, errore, annullamento) o non esiste più
+export function forgetSession(sessionId: string) {
+  store(listActiveSessions().filter((s) => s.sessionId !== sessionId));
+}
@@ -0,0 +1,37 @@
+import * as pdfjs from "pdfjs-dist";
+import workerUrl from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+
+pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+
+// Rende le miniature di un PDF locale una pagina alla volta, senza inviarlo al server.
+// Le miniature rispettano la rotazione già presente nel file.
+export async function renderPdfThumbnails(
+  file: File,
+  width: number,
+  onPage: (page: number, total: number, dataUrl: string) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const data = new Uint8Array(await file.arrayBuffer());
+  const doc = await pdfjs.getDocument({ data }).promise;
+
+  try {
+    for (let pageNumber = 1; pageNumber <= doc.numPages; pageNumber++) {
+      if (signal?.aborted) return;
+      const page = await doc.getPage(pageNumber);
+      const baseViewport = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({ scale: width / baseViewport.width });
+
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.ceil(viewport.width);
+      canvas.height = Math.ceil(viewport.height);
+      const context = canvas.getContext("2d");
+      if (!context) throw new Error("Canvas non disponibile");
+
+      await page.render({ canvasContext: context, viewport }).promise;
+      page.cleanup();
+      onPage(pageNumber, doc.numPages, canvas.toDataURL("image/jpeg", 0.7));
+    }
+  } finally {
+    await doc.destroy();
+  }
+}
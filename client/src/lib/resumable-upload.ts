@@ -0,0 +1,169 @@
+// Caricamento a blocchi ripristinabile (vedi server/uploads.ts).
+// L'id dell'upload resta in localStorage finché la conversione non parte:
+// dopo un'interruzione, anche ricaricando la pagina e riselezionando lo stesso
+// file, si riprende dai byte già ricevuti dal server.
+
+const STORAGE_KEY = "pdfa-resumable-uploads";
+const MAX_RETRIES = 8;
+const MAX_RETRY_DELAY_MS = 30_000;
+
+class UploadHttpError extends Error {
+  constructor(message: string, readonly status: number, readonly received?: number) {
+    super(message);
+  }
+}
+
+function fingerprint(file: File): string {
+  return `${file.name}:${file.size}:${file.lastModified}`;
+}
+
+function readStored(): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+  } catch {
+    return {};
+  }
+}
+
+function storeUploadId(file: File, uploadId: string | null) {
+  const stored = readStored();
+  if (uploadId) stored[fingerprint(file)] = uploadId;
+  else delete stored[fingerprint(file)];
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch {}
+}
+
+// Da chiamare quando il server ha preso in carico gli upload per la conversione
+export function forgetUploads(files: File[]) {
+  for (const file of files) storeUploadId(file, null);
+}
+
+// File tolto dalla lista: il caricamento parziale sul server non serve più
+export function discardUpload(file: File) {
+  const uploadId = readStored()[fingerprint(file)];
+  if (!uploadId) return;
+  storeUploadId(file, null);
+  fetch(`/api/uploads/${uploadId}`, { method: "DELETE" }).catch(() => {});
+}
+
+async function requestJson(url: string, init: RequestInit): Promise<any> {
+  const response = await fetch(url, init);
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new UploadHttpError(data?.message || "Errore del server", response.status, data?.received);
+  }
+  return data;
+}
+
+// XMLHttpRequest al posto di fetch per avere l'avanzamento in byte del singolo blocco
+function sendChunk(
+  uploadId: string,
+  offset: number,
+  chunk: Blob,
+  onProgress: (loaded: number) => void,
+  signal?: AbortSignal
+): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("PATCH", `/api/uploads/${uploadId}`);
+    xhr.setRequestHeader("Content-Type", "application/octet-stream");
+    xhr.setRequestHeader("Upload-Offset", String(offset));
+    xhr.upload.onprogress = (e) => onProgress(e.loaded);
+    xhr.onload = () => {
+      let data: any = null;
+      try {
+        data = JSON.parse(xhr.responseText);
+      } catch {}
+      if (xhr.status >= 200 && xhr.status < 300) resolve(data.received);
+      else reject(new UploadHttpError(data?.message || "Errore del server", xhr.status, data?.received));
+    };
+    xhr.onerror = () => reject(new UploadHttpError("Connessione interrotta", 0));
+    const abort = () => xhr.abort();
+    xhr.onabort = () => {
+      signal?.removeEventListener("abort", abort);
+      reject(new DOMException("Caricamento annullato", "AbortError"));
+    };
+    signal?.addEventListener("abort", abort, { once: true });
+    xhr.send(chunk);
+  });
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(new DOMException("Caricamento annullato", "AbortError"));
+    }, { once: true });
+  });
+}
+
+async function openUpload(file: File, signal?: AbortSignal): Promise<{ uploadId: string; chunkSize: number; received: number }> {
+  const storedId = readStored()[fingerprint(file)];
+  if (storedId) {
+    try {
+      const status = await requestJson(`/api/uploads/${storedId}`, { signal });
+      return { uploadId: storedId, chunkSize: status.chunkSize, received: status.received };
+    } catch (err: any) {
+      if (!(err instanceof UploadHttpError) || err.status !== 404) throw err;
+      storeUploadId(file, null);
+    }
+  }
+
+  const created = await requestJson("/api/uploads", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ fileName: file.name, mimeType: file.type, size: file.size }),
+    signal,
+  });
+  storeUploadId(file, created.uploadId);
+  return created;
+}
+
+// Carica il file e restituisce l'id dell'upload completato.
+// Gli errori di rete si riprovano con attesa crescente, ripartendo dall'offset del server.
+export async function uploadResumable(
+  file: File,
+  onProgress: (sentBytes: number) => void,
+  signal?: AbortSignal
+): Promise<string> {
+  const { uploadId, chunkSize, ...opened } = await openUpload(file, signal);
+  let received = opened.received;
+  onProgress(received);
+
+  let retries = 0;
+  while (received < file.size) {
+    try {
+      const chunk = file.slice(received, received + chunkSize);
+      const offset = received;
+      received = await sendChunk(uploadId, offset, chunk, (loaded) => onProgress(offset + loaded), signal);
+      retries = 0;
+      onProgress(received);
+    } catch (err: any) {
+      if (err.name === "AbortError") throw err;
+      const httpError = err instanceof UploadHttpError ? err : null;
+      if (httpError?.status === 409 && httpError.received !== undefined) {
+        // Il server sta ancora scrivendo il blocco interrotto o ha più byte del previsto
+        received = httpError.received;
+        await wait(1000, signal);
+        continue;
+      }
+      // Errori del client (formato, upload scaduto): inutile riprovare
+      if (httpError && httpError.status >= 400 && httpError.status < 500) {
+        if (httpError.status === 404) storeUploadId(file, null);
+        throw new Error(`${file.name}: ${httpError.message}`);
+      }
+      if (++retries > MAX_RETRIES) {
+        throw new Error(`${file.name}: caricamento interrotto, riprova per riprendere da dove si era fermato`);
+      }
+      await wait(Math.min(MAX_RETRY_DELAY_MS, 1000 * 2 ** (retries - 1)), signal);
+      try {
+        received = (await requestJson(`/api/uploads/${uploadId}`, { signal })).received;
+        onProgress(received);
+      } catch {}
+    }
+  }
+
+  return uploadId;
+}
@@ -19,10 +19,74 @@ import {
   CheckCircle2,
   Scissors,
   ScanSearch,
+  Gauge,
+  SlidersHorizontal,
+  Clock,
+  ScanText,
+  Bookmark,
+  Combine,
+  ChevronUp,
+  ChevronDown,
+  LayoutGrid,
+  FileSignature,
+  LockKeyhole,
+  History,
 } from "lucide-react";
 import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { motion, AnimatePresence } from "framer-motion";
 import { toast } from "@/hooks/use-toast";
+import { PageOrganizer } from "@/components/page-organizer";
+import { uploadResumable, forgetUploads, discardUpload } from "@/lib/resumable-upload";
+import { listActiveSessions, rememberSession, forgetSession, type ActiveSession } from "@/lib/active-sessions";
+import { PageViewer, thumbnailUrl, type ViewerTarget } from "@/components/page-viewer";
+import {
+  SIZE_PRESETS,
+  DEFAULT_SIZE_PRESET,
+  PDFA_LEVELS,
+  DEFAULT_PDFA_LEVEL,
+  resolvePdfALevel,
+  QUALITY_PROFILES,
+  DEFAULT_QUALITY_PROFILE,
+  MIN_DPI,
+  MAX_DPI,
+  resolveQuality,
+  formatQuality,
+  SPLIT_MODES,
+  DEFAULT_SPLIT_MODE,
+  ACCEPTED_INPUTS,
+  ACCEPTED_FORMATS_LABEL,
+  detectInputKind,
+  SIGNED_FILE_ACTIONS,
+  stripInputExtension,
+  MIN_CUSTOM_SIZE_MB,
+  MAX_CUSTOM_SIZE_MB,
+  resolveSizeLimit,
+  formatSizeLimit,
+  type SizePresetId,
+  type PdfALevelId,
+  type PdfAViolation,
+  type QualityProfileId,
+  type SplitMode,
+  type PageEdit,
+  type SignedFileAction,
+  type CadesSignature,
+  type ConvertedFile,
+  type ConversionResult,
+  type SignatureCheck,
+  type PasswordCheck,
+  type JobPhase,
+  type JobStatus,
+  type ProgressEvent,
+  progressEventSchema,
+} from "@shared/schema";
 
 type ProcessingStep = "pending" | "uploading" | "processing" | "done" | "error";
 
@@ -33,46 +97,64 @@ interface FileItem {
   file: File;
   status: ProcessingStep;
   progress: number;
+  // Secondi stimati alla fine della fase in corso (null se non ancora stimabile)
+  etaSeconds: number | null;
+  pageEdits: PageEdit[] | null;
 }
 
-interface PartVerification {
-  name: string;
-  size: number;
-  verified: boolean;
-  conformance: string | null;
-}
+// In attesa di una risposta dell'utente, legata al job che la chiede
+type PendingSignatureCheck = SignatureCheck & { sessionId: string };
+type PendingPasswordCheck = PasswordCheck & { sessionId: string };
 
-interface ConvertedFile {
-  originalName: string;
-  outputName: string;
-  outputSize: number;
-  wasSplit: boolean;
-  parts?: number;
-  verified: boolean;
-  conformance: string | null;
-  partsDetail?: PartVerification[];
-}
-
-interface ConversionResult {
-  sessionId: string;
-  files: ConvertedFile[];
-  totalSize: number;
-}
+// Risultato con il token per i download e le anteprime dell'interfaccia,
+// ottenuto a parte con la chiave di accesso del job
+type CompletedConversion = ConversionResult & { downloadToken: string };
 
 export default function Converter() {
   const [files, setFiles] = useState<FileItem[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [isCompleted, setIsCompleted] = useState(false);
-  const [conversionResult, setConversionResult] = useState<ConversionResult | null>(null);
+  const [conversionResult, setConversionResult] = useState<CompletedConversion | null>(null);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [customName, setCustomName] = useState("");
   const [isStaged, setIsStaged] = useState(false);
   const abortRef = useRef<AbortController | null>(null);
+  // Job in corso sul server, da annullare se l'utente svuota la lista
+  const sessionRef = useRef<string | null>(null);
   const [logMessages, setLogMessages] = useState<string[]>([]);
   const [notifyEmail, setNotifyEmail] = useState("");
+  const [oneTimeLink, setOneTimeLink] = useState(false);
   const [emailSent, setEmailSent] = useState(false);
-  const [currentPhase, setCurrentPhase] = useState<"idle" | "uploading" | "converting" | "splitting" | "verifying" | "done" | "error">("idle");
+  const [currentPhase, setCurrentPhase] = useState<Phase>("idle");
+  const [wasQueued, setWasQueued] = useState(false);
+  const [ocrEnabled, setOcrEnabled] = useState(false);
+  const [splitMode, setSplitMode] = useState<SplitMode>(DEFAULT_SPLIT_MODE);
+  const [mergeFiles, setMergeFiles] = useState(false);
+  const [organizingId, setOrganizingId] = useState<string | null>(null);
+  const [viewerTarget, setViewerTarget] = useState<ViewerTarget | null>(null);
+  const [signatureCheck, setSignatureCheck] = useState<PendingSignatureCheck | null>(null);
+  const [hadSignatures, setHadSignatures] = useState(false);
+  const [passwordCheck, setPasswordCheck] = useState<PendingPasswordCheck | null>(null);
+  const [hadPasswords, setHadPasswords] = useState(false);
+  // Conversioni rimaste in corso prima di un ricaricamento della pagina
+  const [resumableSessions, setResumableSessions] = useState<ActiveSession[]>([]);
   const [phaseDetail, setPhaseDetail] = useState("");
+  const [sizePreset, setSizePreset] = useState<SizePresetId>(DEFAULT_SIZE_PRESET);
+  const [customSizeMB, setCustomSizeMB] = useState("9");
+  const sizeLimit = resolveSizeLimit(sizePreset, parseFloat(customSizeMB));
+  const [pdfaLevelId, setPdfaLevelId] = useState<PdfALevelId>(DEFAULT_PDFA_LEVEL);
+  const pdfaLevel = resolvePdfALevel(pdfaLevelId);
+  const [qualityId, setQualityId] = useState<QualityProfileId>(DEFAULT_QUALITY_PROFILE);
+  const [customDpi, setCustomDpi] = useState({ colorDpi: "150", grayDpi: "150", monoDpi: "300" });
+  const quality = resolveQuality(qualityId, {
+    colorDpi: parseInt(customDpi.colorDpi, 10),
+    grayDpi: parseInt(customDpi.grayDpi, 10),
+    monoDpi: parseInt(customDpi.monoDpi, 10),
+  });
+
+  useEffect(() => {
+    setResumableSessions(listActiveSessions());
+  }, []);
 
   const onDrop = useCallback((acceptedFiles: File[]) => {
     if (acceptedFiles.length === 0) return;
@@ -88,19 +170,264 @@ export default function Converter() {
       file,
       status: "pending" as ProcessingStep,
       progress: 0,
+      etaSeconds: null,
+      pageEdits: null,
     }));
 
     setFiles(newFiles);
     setIsStaged(true);
 
     if (acceptedFiles.length === 1) {
-      const baseName = acceptedFiles[0].name.replace(/\.pdf$/i, "");
+      const baseName = stripInputExtension(acceptedFiles[0].name);
       setCustomName(baseName);
     } else {
       setCustomName("");
     }
   }, []);
 
+  const showResult = async (result: ConversionResult, accessKey: string) => {
+    const response = await fetch(`/api/jobs/${result.sessionId}/download-token`, {
+      headers: { "X-Access-Key": accessKey },
+    });
+    const data = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new Error(data?.message || "Impossibile ottenere il link di download");
+    }
+
+    const level = resolvePdfALevel(result.pdfaLevel);
+    sessionRef.current = null;
+    forgetSession(result.sessionId);
+    setConversionResult({ ...result, downloadToken: data.downloadToken });
+    setFiles((prev) => prev.map((f) => ({ ...f, status: "done", progress: 100 })));
+    setCurrentPhase("done");
+    setPhaseDetail("Tutti i file sono pronti!");
+    setIsProcessing(false);
+    setIsCompleted(true);
+    setIsStaged(false);
+    setEmailSent(result.emailSent);
+    toast({
+      title: "Conversione Completata",
+      description: result.emailSent
+        ? `File convertiti in ${level.label}. Notifica email inviata.`
+        : `Tutti i file sono stati convertiti in formato ${level.label} e sono pronti per il download.`,
+    });
+  };
+
+  const showFailure = (err: Error) => {
+    setFiles((prev) => prev.map((f) => ({ ...f, status: "error", progress: 0, etaSeconds: null })));
+    setIsProcessing(false);
+    setCurrentPhase("error");
+    setPhaseDetail(err.message || "Errore durante la conversione");
+    setErrorMessage(err.message || "Errore sconosciuto durante la conversione");
+    // Se il job è ancora attivo (ad es. connessione interrotta) si può riprendere
+    setResumableSessions(listActiveSessions());
+
+    toast({
+      title: "Errore",
+      description: err.message || "Errore durante la conversione dei file.",
+      variant: "destructive",
+    });
+  };
+
+  // Stato del job da GET /api/jobs/:id: se è terminato mostra il risultato (true) o lancia
+  // l'errore, se è ancora in corso restituisce false
+  const settleFinishedJob = async (session: ActiveSession, signal: AbortSignal): Promise<boolean> => {
+    const response = await fetch(`/api/jobs/${session.sessionId}`, { signal });
+    if (response.status === 404) {
+      forgetSession(session.sessionId);
+      throw new Error("La conversione non è più disponibile: i file sono scaduti o il server è stato riavviato.");
+    }
+    if (!response.ok) throw new Error("Errore del server");
+
+    const job: JobStatus = await response.json();
+    if (job.phase === "done" && job.result) {
+      await showResult(job.result, session.accessKey);
+      return true;
+    }
+    if (job.phase === "error" || job.phase === "cancelled") {
+      forgetSession(session.sessionId);
+      throw new Error(job.error || "La conversione è stata annullata.");
+    }
+    return false;
+  };
+
+  // Segue gli eventi SSE del job fino alla fine. Il server ripete gli eventi già
+  // inviati, quindi lo stato si ricostruisce anche riprendendo dopo un ricaricamento
+  const followSession = (session: ActiveSession, signal: AbortSignal) => {
+    const { sessionId, merge } = session;
+    const level = resolvePdfALevel(session.pdfaLevel);
+
+    // Nel modo unione i file diventano un unico documento (fileIndex 0)
+    const updateProgress = (fileIndex: number, update: (f: FileItem, index: number) => FileItem) => {
+      setFiles((prev) => prev.map((f, index) => (merge || index === fileIndex ? update(f, index) : f)));
+    };
+    const phaseLabels: Partial<Record<JobPhase, string>> = {
+      ocr: "Riconoscimento testo in corso...",
+      converting: `Conversione in ${level.label} in corso...`,
+      splitting: "Suddivisione in parti...",
+      verifying: `Verifica conformità ${level.label}...`,
+    };
+    const stripLabel = (message: string) => message.replace(/\[\d+\/\d+\]\s*/, "");
+
+    return new Promise<void>((resolve, reject) => {
+      const evtSource = new EventSource(`/api/progress/${sessionId}`);
+
+      evtSource.onmessage = (e) => {
+        let event: ProgressEvent;
+        try {
+          const parsed = progressEventSchema.safeParse(JSON.parse(e.data));
+          if (!parsed.success) return;
+          event = parsed.data;
+        } catch {
+          return;
+        }
+
+        if (event.message) {
+          const message = event.message;
+          setLogMessages((prev) => [...prev, message]);
+        }
+
+        switch (event.type) {
+          case "phase-changed":
+            if (event.phase === "cancelled") break;
+            // Richieste già soddisfatte, ad es. ripetute riprendendo la sessione
+            setSignatureCheck(null);
+            setPasswordCheck(null);
+            setCurrentPhase(event.phase);
+            if (event.message || phaseLabels[event.phase]) {
+              setPhaseDetail(stripLabel(event.message ?? phaseLabels[event.phase]!));
+            }
+            break;
+          case "file-started":
+            // I file precedenti sono già terminati
+            setFiles((prev) => prev.map((f, index) => {
+              if (merge || index === event.fileIndex) return { ...f, status: "processing", progress: 0, etaSeconds: null };
+              if (index < event.fileIndex) return { ...f, status: "done", progress: 100, etaSeconds: null };
+              return f;
+            }));
+            if (event.message) setPhaseDetail(stripLabel(event.message));
+            break;
+          case "chunk-progress":
+          case "part-finished":
+            updateProgress(event.fileIndex, (f) => ({ ...f, progress: event.percent, etaSeconds: null }));
+            if (event.message) setPhaseDetail(stripLabel(event.message));
+            break;
+          case "page-progress": {
+            const { fileIndex, pagesDone, totalPages, percent, etaSeconds } = event;
+            updateProgress(fileIndex, (f) => ({ ...f, progress: percent, etaSeconds }));
+            const fileName = merge ? session.customName || "documento unito" : session.files[fileIndex]?.name;
+            const eta = etaSeconds !== null && pagesDone < totalPages ? ` · ${formatEta(etaSeconds)}` : "";
+            setPhaseDetail(`${fileName}: pagina ${pagesDone} di ${totalPages} (${percent}%)${eta}`);
+            break;
+          }
+          case "verification":
+            if (event.message) setPhaseDetail(stripLabel(event.message));
+            break;
+          case "signatures":
+            setPasswordCheck(null);
+            setCurrentPhase("awaiting-decision");
+            setPhaseDetail(event.message ?? "");
+            setSignatureCheck({ sessionId, ...event.check });
+            setHadSignatures(true);
+            break;
+          case "passwords":
+            setCurrentPhase("awaiting-password");
+            setPhaseDetail(event.message ?? "");
+            setPasswordCheck({ sessionId, ...event.check });
+            setHadPasswords(true);
+            break;
+          case "queue":
+            setSignatureCheck(null);
+            setPasswordCheck(null);
+            setWasQueued(true);
+            setCurrentPhase("queued");
+            setPhaseDetail(event.message ?? "");
+            break;
+          case "result":
+            evtSource.close();
+            showResult(event.result, session.accessKey).then(resolve, reject);
+            break;
+          case "error":
+          case "cancelled":
+            evtSource.close();
+            sessionRef.current = null;
+            forgetSession(sessionId);
+            setSignatureCheck(null);
+            setPasswordCheck(null);
+            reject(new Error(event.message));
+            break;
+        }
+      };
+
+      // Interruzioni temporanee: EventSource si ricollega da solo e il server ripete gli
+      // eventi. Solo se la connessione è chiusa del tutto si chiede lo stato del job
+      evtSource.onerror = () => {
+        if (evtSource.readyState !== EventSource.CLOSED) return;
+        setSignatureCheck(null);
+        setPasswordCheck(null);
+        settleFinishedJob(session, signal).then(
+          (finished) => finished ? resolve() : reject(new Error("Connessione al server interrotta")),
+          reject,
+        );
+      };
+
+      signal.addEventListener("abort", () => {
+        evtSource.close();
+        resolve();
+      });
+    });
+  };
+
+  // "Riprendi": ricollega la pagina a una conversione avviata prima di un ricaricamento
+  const resumeSession = async (session: ActiveSession) => {
+    setResumableSessions((prev) => prev.filter((s) => s.sessionId !== session.sessionId));
+    setFiles(session.files.map((f, index) => ({
+      id: `${session.sessionId}-${index}`,
+      name: f.name,
+      size: f.size,
+      // Il file originale non è più disponibile dopo il ricaricamento: serve solo per la lista
+      file: new File([], f.name),
+      status: "pending",
+      progress: 0,
+      etaSeconds: null,
+      pageEdits: null,
+    })));
+    setMergeFiles(session.merge);
+    setCustomName(session.customName);
+    setPdfaLevelId(session.pdfaLevel);
+    setIsStaged(false);
+    setIsCompleted(false);
+    setConversionResult(null);
+    setIsProcessing(true);
+    setErrorMessage(null);
+    setLogMessages([]);
+    setWasQueued(false);
+    setHadSignatures(false);
+    setHadPasswords(false);
+    setCurrentPhase("converting");
+    setPhaseDetail("Ricollegamento alla conversione...");
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    sessionRef.current = session.sessionId;
+
+    try {
+      if (await settleFinishedJob(session, controller.signal)) return;
+      await followSession(session, controller.signal);
+    } catch (err: any) {
+      if (err.name === "AbortError") return;
+      sessionRef.current = null;
+      showFailure(err);
+      // Senza i file originali non si può ripetere la conversione: si torna al caricamento
+      setFiles([]);
+    }
+  };
+
+  const dismissSession = (sessionId: string) => {
+    forgetSession(sessionId);
+    setResumableSessions((prev) => prev.filter((s) => s.sessionId !== sessionId));
+  };
+
   const startConversion = async () => {
     if (files.length === 0) return;
 
@@ -108,27 +435,64 @@ export default function Converter() {
     setErrorMessage(null);
     setLogMessages([]);
     setCurrentPhase("uploading");
+    setWasQueued(false);
+    setHadSignatures(false);
+    setHadPasswords(false);
     setPhaseDetail("Invio file al server...");
 
     const formData = new FormData();
-    files.forEach((f) => {
-      formData.append("files", f.file);
-    });
 
-    if (customName.trim() && files.length === 1) {
+    const mergeActive = mergeFiles && files.length > 1;
+    if (customName.trim() && (files.length === 1 || mergeActive)) {
       formData.append("customName", customName.trim());
     }
 
     if (notifyEmail.trim()) {
       formData.append("notifyEmail", notifyEmail.trim());
+      formData.append("oneTimeLink", String(oneTimeLink));
+    }
+
+    formData.append("sizePreset", sizePreset);
+    formData.append("pdfaLevel", pdfaLevel.id);
+    formData.append("quality", quality.profileId);
+    formData.append("ocr", String(ocrEnabled));
+    formData.append("splitMode", splitMode);
+    formData.append("merge", String(mergeActive));
+    if (files.some((f) => f.pageEdits)) {
+      formData.append("pageEdits", JSON.stringify(files.map((f) => f.pageEdits)));
+    }
+    if (quality.profileId === "custom") {
+      formData.append("colorDpi", String(quality.colorDpi));
+      formData.append("grayDpi", String(quality.grayDpi));
+      formData.append("monoDpi", String(quality.monoDpi));
+    }
+    if (sizePreset === "custom") {
+      formData.append("maxSizeMB", String(sizeLimit.maxSizeMB));
     }
 
     const controller = new AbortController();
     abortRef.current = controller;
 
-    setFiles((prev) => prev.map((f) => ({ ...f, status: "uploading", progress: 30 })));
-
     try {
+      // Caricamento a blocchi, un file alla volta: dopo un'interruzione riprende dai byte già inviati
+      const totalBytes = files.reduce((acc, f) => acc + f.size, 0);
+      let uploadedBefore = 0;
+      const uploadIds: string[] = [];
+      for (let i = 0; i < files.length; i++) {
+        const item = files[i];
+        setFiles((prev) => prev.map((f) => (f.id === item.id ? { ...f, status: "uploading" } : f)));
+        const uploadId = await uploadResumable(item.file, (sent) => {
+          const progress = item.size > 0 ? Math.floor((sent / item.size) * 100) : 100;
+          setFiles((prev) => prev.map((f) => (f.id === item.id ? { ...f, progress } : f)));
+          setPhaseDetail(
+            `Caricamento ${i + 1}/${files.length}: ${item.name} · ${formatMB(uploadedBefore + sent)} di ${formatMB(totalBytes)}`,
+          );
+        }, controller.signal);
+        uploadIds.push(uploadId);
+        uploadedBefore += item.size;
+      }
+      formData.append("uploadIds", JSON.stringify(uploadIds));
+
       const response = await fetch("/api/convert", {
         method: "POST",
         body: formData,
@@ -146,120 +510,84 @@ export default function Converter() {
         throw new Error(errMsg);
       }
 
-      const { sessionId } = await response.json();
-
-      setFiles((prev) => prev.map((f) => ({ ...f, status: "processing", progress: 60 })));
+      const { sessionId, accessKey } = await response.json();
+      sessionRef.current = sessionId;
+      forgetUploads(files.map((f) => f.file));
+
+      const session: ActiveSession = {
+        sessionId,
+        accessKey,
+        startedAt: new Date().toISOString(),
+        files: files.map((f) => ({ name: f.name, size: f.size })),
+        merge: mergeActive,
+        customName: customName.trim(),
+        pdfaLevel: pdfaLevel.id,
+      };
+      rememberSession(session);
+
+      setFiles((prev) => prev.map((f) => ({ ...f, status: "pending", progress: 0, etaSeconds: null })));
       setCurrentPhase("converting");
       setPhaseDetail("Avvio conversione...");
 
-      await new Promise<void>((resolve, reject) => {
-        const evtSource = new EventSource(`/api/progress/${sessionId}`);
-        let emailConfirmed = false;
-
-        evtSource.onmessage = (e) => {
-          try {
-            const parsed = JSON.parse(e.data);
-            if (parsed.type === "log") {
-              const msg = parsed.message as string;
-              setLogMessages((prev) => [...prev, msg]);
-
-              if (msg.includes("Notifica email inviata")) {
-                emailConfirmed = true;
-              }
-
-              if (msg.includes("Elaborazione:")) {
-                setCurrentPhase("converting");
-                setPhaseDetail(msg.replace(/\[\d+\/\d+\]\s*/, ""));
-              } else if (msg.includes("Conversione in formato PDF/A-1b")) {
-                setCurrentPhase("converting");
-                setPhaseDetail("Conversione in PDF/A-1b in corso...");
-              } else if (msg.includes("Conversione PDF/A-1b completata")) {
-                setPhaseDetail("Conversione completata, analisi dimensione...");
-              } else if (msg.includes("Dimensione convertita")) {
-                setPhaseDetail(msg.replace(/\[\d+\/\d+\]\s*/, ""));
-              } else if (msg.includes("divisione in parti") || msg.includes("Diviso in")) {
-                setCurrentPhase("splitting");
-                setPhaseDetail(msg.replace(/\[\d+\/\d+\]\s*/, ""));
-              } else if (msg.includes("Conversione parte")) {
-                setCurrentPhase("splitting");
-                setPhaseDetail(msg.replace(/\[\d+\/\d+\]\s*/, ""));
-              } else if (msg.includes("Parte ") && msg.includes("MB")) {
-                setPhaseDetail(msg.replace(/\[\d+\/\d+\]\s*/, ""));
-              } else if (msg.includes("Verifica conformità")) {
-                setCurrentPhase("verifying");
-                setPhaseDetail("Verifica conformità PDF/A-1b...");
-              } else if (msg.includes("Conforme:") || msg.includes("Non conforme")) {
-                setPhaseDetail(msg.replace(/\[\d+\/\d+\]\s*/, ""));
-              } else if (msg.includes("Elaborazione completata")) {
-                setCurrentPhase("done");
-                setPhaseDetail("Tutti i file sono pronti!");
-              }
-            } else if (parsed.type === "result") {
-              evtSource.close();
-              setConversionResult(parsed.data);
-              setFiles((prev) => prev.map((f) => ({ ...f, status: "done", progress: 100 })));
-              setIsProcessing(false);
-              setIsCompleted(true);
-              setIsStaged(false);
-              setEmailSent(emailConfirmed);
-              toast({
-                title: "Conversione Completata",
-                description: emailConfirmed
-                  ? "File convertiti in PDF/A-1b. Notifica email inviata."
-                  : "Tutti i file sono stati convertiti in formato PDF/A-1b e sono pronti per il download.",
-              });
-              resolve();
-            } else if (parsed.type === "error") {
-              evtSource.close();
-              reject(new Error(parsed.message));
-            }
-          } catch {}
-        };
-
-        evtSource.onerror = () => {
-          evtSource.close();
-          reject(new Error("Connessione al server interrotta"));
-        };
-
-        controller.signal.addEventListener("abort", () => {
-          evtSource.close();
-          resolve();
-        });
-      });
+      await followSession(session, controller.signal);
     } catch (err: any) {
       if (err.name === "AbortError") return;
-
-      setFiles((prev) => prev.map((f) => ({ ...f, status: "error", progress: 0 })));
-      setIsProcessing(false);
-      setCurrentPhase("error");
-      setPhaseDetail(err.message || "Errore durante la conversione");
-      setErrorMessage(err.message || "Errore sconosciuto durante la conversione");
-
-      toast({
-        title: "Errore",
-        description: err.message || "Errore durante la conversione dei file.",
-        variant: "destructive",
-      });
+      showFailure(err);
     }
   };
 
   const removeFile = (id: string) => {
+    const removed = files.find((f) => f.id === id);
+    if (removed) discardUpload(removed.file);
     setFiles((prev) => {
       const updated = prev.filter((f) => f.id !== id);
       if (updated.length === 0) {
         setIsStaged(false);
         setCustomName("");
       } else if (updated.length === 1) {
-        setCustomName(updated[0].name.replace(/\.pdf$/i, ""));
+        setCustomName(stripInputExtension(updated[0].name));
+        setMergeFiles(false);
       }
       return updated;
     });
   };
 
+  // L'ordine dell'elenco è l'ordine delle pagine nel documento unito
+  const moveFile = (id: string, offset: number) => {
+    setFiles((prev) => {
+      const index = prev.findIndex((f) => f.id === id);
+      const target = index + offset;
+      if (index < 0 || target < 0 || target >= prev.length) return prev;
+      const updated = [...prev];
+      [updated[index], updated[target]] = [updated[target], updated[index]];
+      return updated;
+    });
+  };
+
+  const savePageEdits = (id: string, pageEdits: PageEdit[] | null) => {
+    setFiles((prev) => prev.map((f) => (f.id === id ? { ...f, pageEdits } : f)));
+  };
+
+  const organizingFile = files.find((f) => f.id === organizingId);
+
+  const toggleMerge = (enabled: boolean) => {
+    setMergeFiles(enabled);
+    if (enabled && !customName.trim() && files.length > 0) {
+      setCustomName(`${stripInputExtension(files[0].name)}_unito`);
+    } else if (!enabled) {
+      setCustomName("");
+    }
+  };
+
   const clearAll = () => {
     if (abortRef.current) {
       abortRef.current.abort();
     }
+    if (sessionRef.current) {
+      fetch(`/api/jobs/${sessionRef.current}`, { method: "DELETE" }).catch(() => {});
+      forgetSession(sessionRef.current);
+      sessionRef.current = null;
+    }
     setFiles([]);
     setIsCompleted(false);
     setIsProcessing(false);
@@ -269,14 +597,30 @@ export default function Converter() {
     setIsStaged(false);
     setLogMessages([]);
     setNotifyEmail("");
+    setOneTimeLink(false);
     setEmailSent(false);
     setCurrentPhase("idle");
+    setWasQueued(false);
     setPhaseDetail("");
+    setSizePreset(DEFAULT_SIZE_PRESET);
+    setPdfaLevelId(DEFAULT_PDFA_LEVEL);
+    setQualityId(DEFAULT_QUALITY_PROFILE);
+    setCustomDpi({ colorDpi: "150", grayDpi: "150", monoDpi: "300" });
+    setCustomSizeMB("9");
+    setOcrEnabled(false);
+    setSplitMode(DEFAULT_SPLIT_MODE);
+    setMergeFiles(false);
+    setOrganizingId(null);
+    setViewerTarget(null);
+    setSignatureCheck(null);
+    setHadSignatures(false);
+    setPasswordCheck(null);
+    setHadPasswords(false);
   };
 
   const handleDownload = () => {
     if (!conversionResult) return;
-    window.open(`/api/download/${conversionResult.sessionId}`, "_blank");
+    window.open(`/api/download/${conversionResult.sessionId}?token=${conversionResult.downloadToken}`, "_blank");
     toast({
       title: "Download avviato",
       description: "Il tuo archivio ZIP si sta scaricando.",
@@ -292,13 +636,17 @@ export default function Converter() {
             <div className="h-10 w-10 rounded-lg bg-primary flex items-center justify-center text-primary-foreground shadow-lg shadow-primary/20">
               <FileCheck className="h-6 w-6" />
             </div>
-            <h1 className="text-3xl font-bold tracking-tight">Convertitore PDF/A-1b</h1>
+            <h1 className="text-3xl font-bold tracking-tight">Convertitore {pdfaLevel.label}</h1>
           </div>
           <p className="text-muted-foreground mx-auto md:mx-0 text-[16px]">
-            Conversione documenti in formato <strong>PDF/A-1b</strong> (ISO 19005-1)<br />lo standard per l'archiviazione a lungo termine.<br />I file generati non superano mai i <strong>9MB</strong> (compatibile SIGIT) e sono di qualità 150 dpi.
+            Conversione documenti in formato <strong>{pdfaLevel.label}</strong> ({pdfaLevel.standard})<br />lo standard per l'archiviazione a lungo termine.<br />I file generati non superano mai i <strong>{formatSizeLimit(sizeLimit)}</strong> (compatibile {sizeLimit.label}) e sono di qualità {quality.colorDpi} dpi.
           </p>
         </header>
 
+        {!isProcessing && resumableSessions.length > 0 && (
+          <ResumePanel sessions={resumableSessions} onResume={resumeSession} onDismiss={dismissSession} />
+        )}
+
         {!isProcessing && !isCompleted && !isStaged && (
           <DropzoneArea onDrop={onDrop} />
         )}
@@ -334,15 +682,57 @@ export default function Converter() {
                 </div>
                 <div className="divide-y max-h-[500px] overflow-y-auto">
                   <AnimatePresence>
-                    {files.map((file) => (
-                      <FileRow key={file.id} file={file} onRemove={removeFile} isLocked={isProcessing || isCompleted} />
+                    {files.map((file, index) => (
+                      <FileRow
+                        key={file.id}
+                        file={file}
+                        onRemove={removeFile}
+                        isLocked={isProcessing || isCompleted}
+                        onMove={files.length > 1 ? moveFile : undefined}
+                        onOrganize={detectInputKind(file.name, file.file.type) === "pdf" ? setOrganizingId : undefined}
+                        isFirst={index === 0}
+                        isLast={index === files.length - 1}
+                      />
                     ))}
                   </AnimatePresence>
                 </div>
               </CardContent>
             </Card>
 
-            {isStaged && !isProcessing && files.length === 1 && (
+            {organizingFile && (
+              <PageOrganizer
+                file={organizingFile.file}
+                edits={organizingFile.pageEdits}
+                open
+                onOpenChange={(open) => !open && setOrganizingId(null)}
+                onSave={(pageEdits) => savePageEdits(organizingFile.id, pageEdits)}
+              />
+            )}
+
+            {isStaged && !isProcessing && files.length > 1 && (
+              <motion.div
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="bg-muted/50 rounded-lg p-4"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <Combine className="h-4 w-4 text-muted-foreground" />
+                    <span className="text-sm font-medium">Unisci in un unico documento</span>
+                  </div>
+                  <Switch
+                    data-testid="switch-merge"
+                    checked={mergeFiles}
+                    onCheckedChange={toggleMerge}
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground mt-2">
+                  I file vengono uniti nell'ordine dell'elenco (usa le frecce per riordinarli), poi convertiti e divisi come un solo documento.
+                </p>
+              </motion.div>
+            )}
+
+            {isStaged && !isProcessing && (files.length === 1 || mergeFiles) && (
               <motion.div
                 initial={{ opacity: 0, y: 10 }}
                 animate={{ opacity: 1, y: 0 }}
@@ -364,7 +754,175 @@ export default function Converter() {
                   <span className="text-sm text-muted-foreground shrink-0">.pdf</span>
                 </div>
                 <p className="text-xs text-muted-foreground mt-2">
-                  Modifica il nome prima della conversione. Se il file viene diviso, le parti saranno nominate come: {customName || "nome"}_parte1.pdf, {customName || "nome"}_parte2.pdf, ecc.
+                  {splitMode === "bookmarks"
+                    ? <>Modifica il nome prima della conversione. Le parti saranno nominate come: {customName || "nome"}_01_Titolo segnalibro.pdf, {customName || "nome"}_02_Titolo segnalibro.pdf, ecc.</>
+                    : <>Modifica il nome prima della conversione. Se il file viene diviso, le parti saranno nominate come: {customName || "nome"}_parte1.pdf, {customName || "nome"}_parte2.pdf, ecc.</>}
+                </p>
+              </motion.div>
+            )}
+
+            {isStaged && !isProcessing && (
+              <motion.div
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="bg-muted/50 rounded-lg p-4"
+              >
+                <div className="flex items-center gap-2 mb-2">
+                  <ShieldCheck className="h-4 w-4 text-muted-foreground" />
+                  <span className="text-sm font-medium">Livello di conformità</span>
+                </div>
+                <Select value={pdfaLevelId} onValueChange={(v) => setPdfaLevelId(v as PdfALevelId)}>
+                  <SelectTrigger data-testid="select-pdfa-level" className="text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PDFA_LEVELS.map((level) => (
+                      <SelectItem key={level.id} value={level.id}>
+                        {level.label} ({level.standard})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground mt-2">
+                  {pdfaLevel.description}.
+                </p>
+              </motion.div>
+            )}
+
+            {isStaged && !isProcessing && (
+              <motion.div
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="bg-muted/50 rounded-lg p-4"
+              >
+                <div className="flex items-center gap-2 mb-2">
+                  <SlidersHorizontal className="h-4 w-4 text-muted-foreground" />
+                  <span className="text-sm font-medium">Qualità immagini</span>
+                </div>
+                <Select value={qualityId} onValueChange={(v) => setQualityId(v as QualityProfileId)}>
+                  <SelectTrigger data-testid="select-quality" className="text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {QUALITY_PROFILES.map((profile) => (
+                      <SelectItem key={profile.id} value={profile.id}>
+                        {profile.id === "custom" ? profile.label : `${profile.label} — ${profile.colorDpi} dpi`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {qualityId === "custom" && (
+                  <div className="grid grid-cols-3 gap-2 mt-2">
+                    {([
+                      ["colorDpi", "Colore"],
+                      ["grayDpi", "Grigi"],
+                      ["monoDpi", "Bianco e nero"],
+                    ] as const).map(([key, label]) => (
+                      <label key={key} className="text-xs text-muted-foreground space-y-1">
+                        <span>{label} (dpi)</span>
+                        <Input
+                          data-testid={`input-${key}`}
+                          type="number"
+                          min={MIN_DPI}
+                          max={MAX_DPI}
+                          step={10}
+                          value={customDpi[key]}
+                          onChange={(e) => setCustomDpi((prev) => ({ ...prev, [key]: e.target.value }))}
+                          className="text-sm"
+                        />
+                      </label>
+                    ))}
+                  </div>
+                )}
+                <p className="text-xs text-muted-foreground mt-2">
+                  {QUALITY_PROFILES.find((p) => p.id === qualityId)?.description}. {formatQuality(quality)}.
+                </p>
+              </motion.div>
+            )}
+
+            {isStaged && !isProcessing && (
+              <motion.div
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="bg-muted/50 rounded-lg p-4"
+              >
+                <div className="flex items-center gap-2 mb-2">
+                  <Gauge className="h-4 w-4 text-muted-foreground" />
+                  <span className="text-sm font-medium">Limite dimensione per file</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Select value={sizePreset} onValueChange={(v) => setSizePreset(v as SizePresetId)}>
+                    <SelectTrigger data-testid="select-size-preset" className="text-sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SIZE_PRESETS.map((preset) => (
+                        <SelectItem key={preset.id} value={preset.id}>
+                          {preset.id === "custom" ? preset.label : `${preset.label} — ${preset.maxSizeMB}MB`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {sizePreset === "custom" && (
+                    <>
+                      <Input
+                        data-testid="input-custom-size"
+                        type="number"
+                        min={MIN_CUSTOM_SIZE_MB}
+                        max={MAX_CUSTOM_SIZE_MB}
+                        step={0.5}
+                        value={customSizeMB}
+                        onChange={(e) => setCustomSizeMB(e.target.value)}
+                        className="text-sm w-24"
+                      />
+                      <span className="text-sm text-muted-foreground shrink-0">MB</span>
+                    </>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground mt-2">
+                  I file convertiti che superano {formatSizeLimit(sizeLimit)} verranno divisi automaticamente in più parti.
+                </p>
+                <div className="flex items-center gap-2 mt-3 mb-2">
+                  <Bookmark className="h-4 w-4 text-muted-foreground" />
+                  <span className="text-sm font-medium">Modalità di divisione</span>
+                </div>
+                <Select value={splitMode} onValueChange={(v) => setSplitMode(v as SplitMode)}>
+                  <SelectTrigger data-testid="select-split-mode" className="text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SPLIT_MODES.map((mode) => (
+                      <SelectItem key={mode.id} value={mode.id}>
+                        {mode.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground mt-2">
+                  {SPLIT_MODES.find((m) => m.id === splitMode)?.description}.
+                </p>
+              </motion.div>
+            )}
+
+            {isStaged && !isProcessing && (
+              <motion.div
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="bg-muted/50 rounded-lg p-4"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <ScanText className="h-4 w-4 text-muted-foreground" />
+                    <span className="text-sm font-medium">Testo ricercabile (OCR)</span>
+                  </div>
+                  <Switch
+                    data-testid="switch-ocr"
+                    checked={ocrEnabled}
+                    onCheckedChange={setOcrEnabled}
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground mt-2">
+                  Per documenti scansionati: riconosce il testo (italiano e inglese) e lo rende ricercabile e copiabile. Richiede più tempo.
                 </p>
               </motion.div>
             )}
@@ -391,6 +949,21 @@ export default function Converter() {
                 <p className="text-xs text-muted-foreground mt-2">
                   Ricevi un'email con il riepilogo e il link per scaricare i file convertiti.
                 </p>
+                {notifyEmail.trim() && (
+                  <div className="flex items-center justify-between gap-2 mt-3">
+                    <span className="text-xs text-muted-foreground">Link utilizzabile una sola volta</span>
+                    <Switch
+                      data-testid="switch-one-time-link"
+                      checked={oneTimeLink}
+                      onCheckedChange={setOneTimeLink}
+                    />
+                  </div>
+                )}
+                {notifyEmail.trim() && oneTimeLink && (
+                  <p data-testid="text-one-time-warning" className="text-xs text-amber-700 dark:text-amber-400 mt-1">
+                    Il primo accesso esaurisce il link, anche se il download si interrompe o se un filtro antispam della posta lo apre in automatico.
+                  </p>
+                )}
               </motion.div>
             )}
 
@@ -417,25 +990,59 @@ export default function Converter() {
                 </h3>
 
                 <div className="bg-muted/50 rounded-lg p-4 space-y-3">
+                  <div data-testid="text-result-quality" className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <SlidersHorizontal className="h-3.5 w-3.5" />
+                    Qualità: {formatQuality(conversionResult.quality)}
+                  </div>
+                  {conversionResult.ocr && (
+                    <div data-testid="text-result-ocr" className="flex items-center gap-2 text-xs text-muted-foreground">
+                      <ScanText className="h-3.5 w-3.5" />
+                      Testo ricercabile aggiunto con OCR (italiano e inglese)
+                    </div>
+                  )}
                   {conversionResult.files.map((file, index) => {
                     if (file.wasSplit && file.partsDetail) {
                       return (
                         <div key={index} className="space-y-2">
-                          <div className="text-xs text-muted-foreground font-mono mb-1">
+                          <div className="text-xs text-muted-foreground font-mono mb-1 flex items-center gap-2">
                             {file.originalName} &rarr; diviso in {file.partsDetail.length} parti
+                            <SignatureNote file={file} />
                           </div>
+                          <CadesNote signatures={file.cades} />
                           {file.partsDetail.map((part, i) => (
-                            <div key={`${index}-part-${i}`} data-testid={`row-part-${index}-${i}`} className="flex justify-between items-center text-sm pl-4">
-                              <span data-testid={`text-part-name-${index}-${i}`} className="flex items-center gap-2">
-                                <FileCheck className="h-4 w-4 text-emerald-500" />
-                                {part.name}
-                              </span>
-                              <div className="flex items-center gap-3">
-                                <PdfaBadge verified={part.verified} conformance={part.conformance} />
-                                <span data-testid={`text-part-size-${index}-${i}`} className="font-mono text-muted-foreground">
-                                  {(part.size / 1024 / 1024).toFixed(2)} MB
+                            <div key={`${index}-part-${i}`} className="pl-4">
+                              <div data-testid={`row-part-${index}-${i}`} className="flex justify-between items-center text-sm">
+                                <span data-testid={`text-part-name-${index}-${i}`} className="flex items-center gap-2">
+                                  <FileCheck className="h-4 w-4 text-emerald-500" />
+                                  {part.name}
+                                  {part.bookmark && (
+                                    <span className="inline-flex items-center gap-1 text-xs text-muted-foreground" title={part.bookmark}>
+                                      <Bookmark className="h-3 w-3" />
+                                    </span>
+                                  )}
                                 </span>
+                                <div className="flex items-center gap-3">
+                                  <PdfaBadge verified={part.verified} conformance={part.conformance} expected={conversionResult.pdfaLevel} />
+                                  <span data-testid={`text-part-size-${index}-${i}`} className="font-mono text-muted-foreground">
+                                    {(part.size / 1024 / 1024).toFixed(2)} MB
+                                  </span>
+                                  <FileDownloadLink
+                                    sessionId={conversionResult.sessionId}
+                                    token={conversionResult.downloadToken}
+                                    fileName={part.name}
+                                    testId={`link-download-part-${index}-${i}`}
+                                  />
+                                </div>
                               </div>
+                              <PagePreview
+                                sessionId={conversionResult.sessionId}
+                                token={conversionResult.downloadToken}
+                                fileName={part.name}
+                                pageCount={part.pageCount}
+                                sourceStartPage={part.startPage}
+                                onOpen={setViewerTarget}
+                              />
+                              <ViolationList violations={part.violations} />
                             </div>
                           ))}
                         </div>
@@ -443,27 +1050,66 @@ export default function Converter() {
                     }
 
                     return (
-                      <div key={index} data-testid={`row-file-${index}`} className="flex justify-between items-center text-sm">
-                        <span data-testid={`text-output-name-${index}`} className="flex items-center gap-2">
-                          <FileCheck className="h-4 w-4 text-emerald-500" />
-                          {file.outputName}
-                        </span>
-                        <div className="flex items-center gap-3">
-                          <PdfaBadge verified={file.verified} conformance={file.conformance} />
-                          <span data-testid={`text-output-size-${index}`} className="font-mono text-muted-foreground">
-                            {(file.outputSize / 1024 / 1024).toFixed(2)} MB
+                      <div key={index}>
+                        <div data-testid={`row-file-${index}`} className="flex justify-between items-center text-sm">
+                          <span data-testid={`text-output-name-${index}`} className="flex items-center gap-2">
+                            <FileCheck className="h-4 w-4 text-emerald-500" />
+                            {file.outputName}
+                            <SignatureNote file={file} />
+                            {file.passthrough === "compliant" && (
+                              <span data-testid={`text-already-compliant-${index}`} className="text-xs text-muted-foreground">
+                                già conforme, non riconvertito
+                              </span>
+                            )}
                           </span>
+                          <div className="flex items-center gap-3">
+                            <PdfaBadge verified={file.verified} conformance={file.conformance} expected={conversionResult.pdfaLevel} />
+                            <span data-testid={`text-output-size-${index}`} className="font-mono text-muted-foreground">
+                              {(file.outputSize / 1024 / 1024).toFixed(2)} MB
+                            </span>
+                            <FileDownloadLink
+                              sessionId={conversionResult.sessionId}
+                              token={conversionResult.downloadToken}
+                              fileName={file.outputName}
+                              testId={`link-download-file-${index}`}
+                            />
+                          </div>
                         </div>
+                        <CadesNote signatures={file.cades} />
+                        <PagePreview
+                          sessionId={conversionResult.sessionId}
+                          token={conversionResult.downloadToken}
+                          fileName={file.outputName}
+                          pageCount={file.pageCount}
+                          onOpen={setViewerTarget}
+                        />
+                        <ViolationList violations={file.violations} />
                       </div>
                     );
                   })}
 
+                  <PageViewer
+                    sessionId={conversionResult.sessionId}
+                    token={conversionResult.downloadToken}
+                    target={viewerTarget}
+                    onClose={() => setViewerTarget(null)}
+                  />
+
                   <div className="pt-3 mt-3 border-t border-dashed flex justify-between items-center font-medium">
-                    <span>Totale Archivio ZIP</span>
+                    <span>
+                      Totale Archivio ZIP
+                      <span className="ml-2 text-xs font-normal text-muted-foreground">
+                        (limite {formatSizeLimit(conversionResult.sizeLimit)} · {conversionResult.sizeLimit.label})
+                      </span>
+                    </span>
                     <span>
                       {(conversionResult.totalSize / 1024 / 1024).toFixed(2)} MB
                     </span>
                   </div>
+                  <div data-testid="text-result-expiry" className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <Clock className="h-3.5 w-3.5" />
+                    File disponibili fino al {new Date(conversionResult.expiresAt).toLocaleString("it-IT")}, scaricabili più volte
+                  </div>
                 </div>
               </motion.div>
             )}
@@ -476,7 +1122,7 @@ export default function Converter() {
                   onClick={startConversion}
                   className="w-full md:w-auto gap-2 shadow-xl shadow-primary/20"
                 >
-                  <Play className="h-4 w-4" /> Converti in PDF/A-1b
+                  <Play className="h-4 w-4" /> Converti in {pdfaLevel.label}
                 </Button>
               )}
               {isCompleted ? (
@@ -498,8 +1144,38 @@ export default function Converter() {
               )}
             </div>
 
+            {passwordCheck && (
+              <PasswordPanel
+                key={`${passwordCheck.sessionId}-${passwordCheck.retry}-${passwordCheck.files.length}`}
+                check={passwordCheck}
+                onSent={() => {
+                  setPasswordCheck(null);
+                  setCurrentPhase("queued");
+                  setPhaseDetail("Password inviate, sblocco dei file in corso...");
+                }}
+              />
+            )}
+
+            {signatureCheck && (
+              <SignatureDecisionPanel
+                check={signatureCheck}
+                onDecided={() => {
+                  setSignatureCheck(null);
+                  setCurrentPhase("queued");
+                  setPhaseDetail("Scelta registrata, avvio elaborazione...");
+                }}
+              />
+            )}
+
             {currentPhase !== "idle" && currentPhase !== "done" && (
-              <ProgressTracker currentPhase={currentPhase} phaseDetail={phaseDetail} />
+              <ProgressTracker
+                currentPhase={currentPhase}
+                phaseDetail={phaseDetail}
+                showQueue={wasQueued}
+                showOcr={ocrEnabled}
+                showSignatures={hadSignatures}
+                showPasswords={hadPasswords}
+              />
             )}
           </motion.div>
         )}
@@ -508,6 +1184,93 @@ export default function Converter() {
   );
 }
 
+// Prima e ultima pagina di un file convertito; il clic apre il visualizzatore
+function PagePreview({
+  sessionId,
+  token,
+  fileName,
+  pageCount,
+  sourceStartPage,
+  onOpen,
+}: {
+  sessionId: string;
+  token: string;
+  fileName: string;
+  pageCount: number;
+  sourceStartPage?: number;
+  onOpen: (target: ViewerTarget) => void;
+}) {
+  if (!pageCount) return null;
+  const pages = pageCount > 1 ? [1, pageCount] : [1];
+
+  return (
+    <div className="flex items-end gap-3 mt-2 mb-1 pl-6">
+      {pages.map((page) => (
+        <button
+          key={page}
+          type="button"
+          data-testid={`button-preview-${fileName}-${page}`}
+          onClick={() => onOpen({ fileName, pageCount, initialPage: page, sourceStartPage })}
+          className="group flex flex-col items-center gap-1"
+          title="Apri anteprima"
+        >
+          <img
+            src={thumbnailUrl(sessionId, token, fileName, page)}
+            alt={`${fileName} pagina ${page}`}
+            loading="lazy"
+            className="h-20 w-auto rounded-sm border bg-white shadow-sm transition-transform group-hover:scale-105"
+          />
+          <span className="text-[10px] text-muted-foreground font-mono">
+            {sourceStartPage !== undefined ? `p. ${sourceStartPage + page - 1}` : `p. ${page}`}
+          </span>
+        </button>
+      ))}
+      {pageCount > 2 && (
+        <span className="text-xs text-muted-foreground pb-5">{pageCount} pagine</span>
+      )}
+    </div>
+  );
+}
+
+function FileDownloadLink({
+  sessionId,
+  token,
+  fileName,
+  testId,
+}: {
+  sessionId: string;
+  token: string;
+  fileName: string;
+  testId: string;
+}) {
+  return (
+    <a
+      data-testid={testId}
+      href={`/api/download/${sessionId}/${encodeURIComponent(fileName)}?token=${token}`}
+      download={fileName}
+      title={`Scarica ${fileName}`}
+      className="text-muted-foreground hover:text-primary transition-colors"
+    >
+      <Download className="h-4 w-4" />
+    </a>
+  );
+}
+
+function formatMB(bytes: number): string {
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function formatEta(seconds: number): string {
+  if (seconds < 60) return "manca meno di un minuto";
+  const minutes = Math.round(seconds / 60);
+  return minutes === 1 ? "manca circa 1 minuto" : `mancano circa ${minutes} minuti`;
+}
+
+const DROPZONE_ACCEPT = ACCEPTED_INPUTS.reduce<Record<string, string[]>>((acc, input) => {
+  acc[input.mimeType] = [...(acc[input.mimeType] ?? []), ...input.extensions];
+  return acc;
+}, {});
+
 function DropzoneArea({ onDrop }: { onDrop: (files: File[]) => void }) {
   const [rejectionError, setRejectionError] = useState<string | null>(null);
 
@@ -517,14 +1280,14 @@ function DropzoneArea({ onDrop }: { onDrop: (files: File[]) => void }) {
         const tooMany = rejected.some((r) =>
           r.errors.some((e) => e.code === "too-many-files")
         );
-        const nonPdf = rejected.filter((r) =>
+        const unsupported = rejected.filter((r) =>
           r.errors.some((e) => e.code === "file-invalid-type")
         );
         if (tooMany) {
-          setRejectionError("Puoi caricare al massimo 100 file PDF alla volta.");
-        } else if (nonPdf.length > 0) {
-          const names = nonPdf.map((r) => r.file.name).join(", ");
-          setRejectionError(`I seguenti file non sono in formato PDF e non possono essere caricati: ${names}`);
+          setRejectionError("Puoi caricare al massimo 100 file alla volta.");
+        } else if (unsupported.length > 0) {
+          const names = unsupported.map((r) => r.file.name).join(", ");
+          setRejectionError(`I seguenti file hanno un formato non supportato e non possono essere caricati: ${names}. Sono accettati ${ACCEPTED_FORMATS_LABEL}.`);
         } else {
           setRejectionError("Alcuni file superano il limite di 100MB.");
         }
@@ -535,9 +1298,7 @@ function DropzoneArea({ onDrop }: { onDrop: (files: File[]) => void }) {
         onDrop(accepted);
       }
     },
-    accept: {
-      "application/pdf": [".pdf"],
-    },
+    accept: DROPZONE_ACCEPT,
     maxSize: 100 * 1024 * 1024,
     maxFiles: 100,
   });
@@ -580,13 +1341,14 @@ function DropzoneArea({ onDrop }: { onDrop: (files: File[]) => void }) {
           </div>
           <div className="space-y-1">
             <h3 className="text-xl font-semibold">
-              {isDragActive ? "Rilascia i file qui..." : "Trascina qui i file PDF"}
+              {isDragActive ? "Rilascia i file qui..." : "Trascina qui i file da convertire"}
             </h3>
             <p className="text-sm text-muted-foreground">o clicca per sfogliare. MAX 100 file · MAX 100MB per file.</p>
+            <p className="text-xs text-muted-foreground">Formati accettati: {ACCEPTED_FORMATS_LABEL}.</p>
           </div>
           <div className="flex gap-2 text-xs font-mono text-muted-foreground/60 mt-4">
-            <span className="px-2 py-1 bg-muted rounded">PDF 1.4+</span>
-            <span className="px-2 py-1 bg-muted rounded">PDF/A-1b</span>
+            <span className="px-2 py-1 bg-muted rounded">PDF · JPEG · PNG · TIFF · DOCX · ODT</span>
+            <span className="px-2 py-1 bg-muted rounded">PDF/A-1b/2b/3b</span>
             <span className="px-2 py-1 bg-muted rounded">Ghostscript</span>
           </div>
         </div>
@@ -607,10 +1369,18 @@ function FileRow({
   file,
   onRemove,
   isLocked,
+  onMove,
+  onOrganize,
+  isFirst,
+  isLast,
 }: {
   file: FileItem;
   onRemove: (id: string) => void;
   isLocked: boolean;
+  onMove?: (id: string, offset: number) => void;
+  onOrganize?: (id: string) => void;
+  isFirst?: boolean;
+  isLast?: boolean;
 }) {
   const getStatusText = (file: FileItem) => {
     switch (file.status) {
@@ -647,17 +1417,56 @@ function FileRow({
               </span>
               <span className="text-xs text-muted-foreground font-mono">
                 {(file.size / 1024 / 1024).toFixed(2)} MB
+                {file.pageEdits && ` · pagine modificate (${file.pageEdits.length} mantenute)`}
               </span>
             </div>
             {!isLocked && (
-              <Button
-                variant="ghost"
-                size="icon"
-                onClick={() => onRemove(file.id)}
-                className="h-8 w-8 text-muted-foreground hover:text-destructive opacity-0 group-hover:opacity-100 transition-opacity"
-              >
-                <X className="h-4 w-4" />
-              </Button>
+              <div className="flex items-center">
+                {onOrganize && (
+                  <Button
+                    data-testid={`button-organize-${file.id}`}
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => onOrganize(file.id)}
+                    className="h-8 w-8 text-muted-foreground"
+                    title="Organizza pagine"
+                  >
+                    <LayoutGrid className="h-4 w-4" />
+                  </Button>
+                )}
+                {onMove && (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      disabled={isFirst}
+                      onClick={() => onMove(file.id, -1)}
+                      className="h-8 w-8 text-muted-foreground"
+                      title="Sposta su"
+                    >
+                      <ChevronUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      disabled={isLast}
+                      onClick={() => onMove(file.id, 1)}
+                      className="h-8 w-8 text-muted-foreground"
+                      title="Sposta giù"
+                    >
+                      <ChevronDown className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onRemove(file.id)}
+                  className="h-8 w-8 text-muted-foreground hover:text-destructive opacity-0 group-hover:opacity-100 transition-opacity"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
             )}
           </div>
 
@@ -667,7 +1476,10 @@ function FileRow({
               <span className={file.status === "done" ? "text-emerald-600" : file.status === "error" ? "text-destructive" : "text-primary"}>
                 {getStatusText(file)}
               </span>
-              <span className="text-muted-foreground">{file.progress}%</span>
+              <span className="text-muted-foreground">
+                {file.status === "processing" && file.etaSeconds !== null && file.progress < 100 && `${formatEta(file.etaSeconds)} · `}
+                {file.progress}%
+              </span>
             </div>
             <Progress value={file.progress} className="h-1.5" />
           </div>
@@ -678,11 +1490,15 @@ function FileRow({
   );
 }
 
-type Phase = "idle" | "uploading" | "converting" | "splitting" | "verifying" | "done" | "error";
+type Phase = "idle" | "uploading" | Exclude<JobPhase, "cancelled">;
 
 const PHASES: { key: Phase; label: string; icon: React.ReactNode }[] = [
   { key: "uploading", label: "Caricamento", icon: <Upload className="h-4 w-4" /> },
-  { key: "converting", label: "Conversione PDF/A-1b", icon: <FileCheck className="h-4 w-4" /> },
+  { key: "awaiting-password", label: "File protetti da password", icon: <LockKeyhole className="h-4 w-4" /> },
+  { key: "awaiting-decision", label: "File firmati digitalmente", icon: <FileSignature className="h-4 w-4" /> },
+  { key: "queued", label: "In coda", icon: <Clock className="h-4 w-4" /> },
+  { key: "ocr", label: "Riconoscimento testo (OCR)", icon: <ScanText className="h-4 w-4" /> },
+  { key: "converting", label: "Conversione PDF/A", icon: <FileCheck className="h-4 w-4" /> },
   { key: "splitting", label: "Suddivisione", icon: <Scissors className="h-4 w-4" /> },
   { key: "verifying", label: "Verifica", icon: <ScanSearch className="h-4 w-4" /> },
   { key: "done", label: "Completato", icon: <CheckCircle2 className="h-4 w-4" /> },
@@ -692,10 +1508,30 @@ function getPhaseIndex(phase: Phase): number {
   return PHASES.findIndex(p => p.key === phase);
 }
 
-function ProgressTracker({ currentPhase, phaseDetail }: { currentPhase: Phase; phaseDetail: string }) {
+function ProgressTracker({
+  currentPhase,
+  phaseDetail,
+  showQueue,
+  showOcr,
+  showSignatures,
+  showPasswords,
+}: {
+  currentPhase: Phase;
+  phaseDetail: string;
+  showQueue: boolean;
+  showOcr: boolean;
+  showSignatures: boolean;
+  showPasswords: boolean;
+}) {
   const currentIndex = getPhaseIndex(currentPhase);
   const showSplitting = currentIndex >= getPhaseIndex("splitting");
-  const displayPhases = showSplitting ? PHASES : PHASES.filter(p => p.key !== "splitting");
+  const displayPhases = PHASES.filter(p =>
+    (p.key !== "splitting" || showSplitting) &&
+    (p.key !== "queued" || showQueue) &&
+    (p.key !== "ocr" || showOcr) &&
+    (p.key !== "awaiting-decision" || showSignatures) &&
+    (p.key !== "awaiting-password" || showPasswords)
+  );
 
   return (
     <motion.div
@@ -766,7 +1602,303 @@ function ProgressTracker({ currentPhase, phaseDetail }: { currentPhase: Phase; p
   );
 }
 
-function PdfaBadge({ verified, conformance }: { verified: boolean; conformance: string | null }) {
+function SignatureNote({ file }: { file: ConvertedFile }) {
+  if (!file.signatures?.length) return null;
+  const signers = file.signatures.map((s) => s.signer ?? "firmatario sconosciuto").join(", ");
+
+  return file.passthrough === "signed" ? (
+    <span data-testid="text-signature-kept" className="inline-flex items-center gap-1 text-xs font-sans text-emerald-700 dark:text-emerald-400" title={signers}>
+      <FileSignature className="h-3.5 w-3.5" /> firmato, non convertito
+    </span>
+  ) : (
+    <span data-testid="text-signature-removed" className="inline-flex items-center gap-1 text-xs font-sans text-amber-700 dark:text-amber-400" title={signers}>
+      <FileSignature className="h-3.5 w-3.5" /> firma digitale rimossa
+    </span>
+  );
+}
+
+// Origine .p7m: firma verificata sulla busta, la copia PDF/A non è firmata
+function CadesNote({ signatures }: { signatures?: CadesSignature[] }) {
+  if (!signatures?.length) return null;
+
+  return (
+    <div data-testid="text-cades-note" className="mt-1 ml-6 text-xs space-y-0.5">
+      {signatures.map((s, i) => (
+        <div key={i} className="flex items-center gap-1.5 text-muted-foreground">
+          <FileSignature className="h-3 w-3 shrink-0" />
+          <span>
+            Firma CAdES di {s.signer ?? "firmatario sconosciuto"} del {formatSigningTime(s.signingTime)}
+            {" · "}
+            <span className={s.signatureValid ? "text-emerald-700 dark:text-emerald-400" : "text-destructive"}>
+              firma {s.signatureValid ? "integra" : "non integra"}
+            </span>
+            {" · "}
+            <span className={s.certificateInPeriod ? "text-emerald-700 dark:text-emerald-400" : "text-destructive"}>
+              certificato {s.certificateInPeriod ? "nel" : "fuori dal"} periodo di validità
+              {s.certificateNotAfter && ` (scadenza ${new Date(s.certificateNotAfter).toLocaleDateString("it-IT")})`}
+            </span>
+            {" · "}
+            {s.chainVerified === null ? (
+              <span>catena di certificazione non verificata</span>
+            ) : (
+              <span className={s.chainVerified ? "text-emerald-700 dark:text-emerald-400" : "text-destructive"}>
+                catena di certificazione {s.chainVerified ? "verificata" : "non verificata"}
+              </span>
+            )}
+          </span>
+        </div>
+      ))}
+      <p className="text-amber-700 dark:text-amber-400 font-medium">
+        La copia PDF/A non è firmata: la firma resta valida solo sul file .p7m originale.
+      </p>
+    </div>
+  );
+}
+
+function formatSigningTime(value: string | null): string {
+  return value ? new Date(value).toLocaleString("it-IT") : "data non indicata";
+}
+
+// Scelta per i file firmati: il server attende la risposta prima di entrare in coda
+function SignatureDecisionPanel({ check, onDecided }: { check: PendingSignatureCheck; onDecided: () => void }) {
+  const [actions, setActions] = useState<Record<number, SignedFileAction>>(() =>
+    Object.fromEntries(check.files.map((f) => [f.fileIndex, check.allowPassthrough ? "passthrough" : "convert"])),
+  );
+  const [sending, setSending] = useState(false);
+  const options = SIGNED_FILE_ACTIONS.filter((a) => a.id !== "abort" && (a.id !== "passthrough" || check.allowPassthrough));
+
+  const submit = async (payload: Record<number, SignedFileAction>) => {
+    setSending(true);
+    try {
+      const response = await fetch(`/api/jobs/${check.sessionId}/signatures`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ actions: payload }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorData?.message || "Impossibile inviare la scelta");
+      }
+      onDecided();
+    } catch (err: any) {
+      toast({ title: "Errore", description: err.message, variant: "destructive" });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <motion.div
+      data-testid="panel-signatures"
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="rounded-xl border border-amber-300 bg-amber-50 dark:bg-amber-950/20 dark:border-amber-800 p-5 space-y-4"
+    >
+      <div className="flex items-start gap-2">
+        <FileSignature className="h-5 w-5 text-amber-600 shrink-0 mt-0.5" />
+        <div>
+          <p className="text-sm font-medium">File firmati digitalmente</p>
+          <p className="text-xs text-muted-foreground">
+            La conversione in PDF/A riscrive il documento e rende la firma non più verificabile.
+            {!check.allowPassthrough && " In modalità unione i file firmati possono solo essere convertiti."}
+          </p>
+        </div>
+      </div>
+
+      {check.files.map((file) => (
+        <div key={file.fileIndex} className="space-y-2 border-t border-amber-200 dark:border-amber-900 pt-3">
+          <div className="flex items-center justify-between gap-3">
+            <span className="text-sm font-medium truncate" title={file.name}>{file.name}</span>
+            <Select
+              value={actions[file.fileIndex]}
+              onValueChange={(value) => setActions((prev) => ({ ...prev, [file.fileIndex]: value as SignedFileAction }))}
+            >
+              <SelectTrigger data-testid={`select-signature-${file.fileIndex}`} className="w-[200px] h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {options.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <ul className="text-xs text-muted-foreground space-y-0.5">
+            {file.signatures.map((signature, i) => (
+              <li key={i}>
+                {signature.signer ?? "Firmatario sconosciuto"} · {formatSigningTime(signature.signingTime)}
+                {signature.fieldName && ` · campo ${signature.fieldName}`}
+              </li>
+            ))}
+          </ul>
+          <p className="text-xs text-muted-foreground">
+            {SIGNED_FILE_ACTIONS.find((a) => a.id === actions[file.fileIndex])?.description}.
+          </p>
+        </div>
+      ))}
+
+      <div className="flex justify-end gap-2">
+        <Button
+          data-testid="button-signatures-abort"
+          variant="ghost"
+          size="sm"
+          disabled={sending}
+          onClick={() => submit(Object.fromEntries(check.files.map((f) => [f.fileIndex, "abort"])))}
+        >
+          Annulla conversione
+        </Button>
+        <Button data-testid="button-signatures-continue" size="sm" disabled={sending} onClick={() => submit(actions)}>
+          {sending && <Loader2 className="h-4 w-4 animate-spin" />} Prosegui
+        </Button>
+      </div>
+    </motion.div>
+  );
+}
+
+// Password dei PDF protetti: il server riprova lo sblocco e, se fallisce, le richiede di nuovo
+function PasswordPanel({ check, onSent }: { check: PendingPasswordCheck; onSent: () => void }) {
+  const [passwords, setPasswords] = useState<Record<number, string>>({});
+  const [sending, setSending] = useState(false);
+  const complete = check.files.every((f) => passwords[f.fileIndex]);
+
+  const submit = async (payload: { passwords: Record<number, string> } | { abort: true }) => {
+    setSending(true);
+    try {
+      const response = await fetch(`/api/jobs/${check.sessionId}/passwords`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorData?.message || "Impossibile inviare le password");
+      }
+      onSent();
+    } catch (err: any) {
+      toast({ title: "Errore", description: err.message, variant: "destructive" });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <motion.div
+      data-testid="panel-passwords"
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="rounded-xl border border-amber-300 bg-amber-50 dark:bg-amber-950/20 dark:border-amber-800 p-5 space-y-4"
+    >
+      <div className="flex items-start gap-2">
+        <LockKeyhole className="h-5 w-5 text-amber-600 shrink-0 mt-0.5" />
+        <div>
+          <p className="text-sm font-medium">File protetti da password</p>
+          <p className="text-xs text-muted-foreground">
+            Inserisci la password di apertura per sbloccarli. Le password non vengono conservate.
+          </p>
+          {check.retry && (
+            <p data-testid="text-password-retry" className="text-xs text-destructive mt-1">
+              Password non valida, riprova.
+            </p>
+          )}
+        </div>
+      </div>
+
+      {check.files.map((file) => (
+        <div key={file.fileIndex} className="flex items-center justify-between gap-3 border-t border-amber-200 dark:border-amber-900 pt-3">
+          <span className="text-sm font-medium truncate" title={file.name}>{file.name}</span>
+          <Input
+            data-testid={`input-password-${file.fileIndex}`}
+            type="password"
+            autoComplete="off"
+            value={passwords[file.fileIndex] ?? ""}
+            onChange={(e) => setPasswords((prev) => ({ ...prev, [file.fileIndex]: e.target.value }))}
+            onKeyDown={(e) => e.key === "Enter" && complete && !sending && submit({ passwords })}
+            className="w-[220px] h-8 text-sm"
+          />
+        </div>
+      ))}
+
+      <div className="flex justify-end gap-2">
+        <Button
+          data-testid="button-passwords-abort"
+          variant="ghost"
+          size="sm"
+          disabled={sending}
+          onClick={() => submit({ abort: true })}
+        >
+          Annulla conversione
+        </Button>
+        <Button data-testid="button-passwords-submit" size="sm" disabled={sending || !complete} onClick={() => submit({ passwords })}>
+          {sending && <Loader2 className="h-4 w-4 animate-spin" />} Sblocca
+        </Button>
+      </div>
+    </motion.div>
+  );
+}
+
+// Conversioni avviate prima di un ricaricamento della pagina: si possono riprendere o ignorare
+// (ignorarle non annulla il job sul server)
+function ResumePanel({
+  sessions,
+  onResume,
+  onDismiss,
+}: {
+  sessions: ActiveSession[];
+  onResume: (session: ActiveSession) => void;
+  onDismiss: (sessionId: string) => void;
+}) {
+  return (
+    <motion.div
+      data-testid="panel-resume"
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="rounded-xl border border-primary/30 bg-primary/5 p-5 space-y-4"
+    >
+      <div className="flex items-start gap-2">
+        <History className="h-5 w-5 text-primary shrink-0 mt-0.5" />
+        <div>
+          <p className="text-sm font-medium">Conversioni in corso</p>
+          <p className="text-xs text-muted-foreground">
+            La pagina ha perso il collegamento con queste conversioni: riprendile per seguirne l'avanzamento o scaricare i file.
+          </p>
+        </div>
+      </div>
+
+      {sessions.map((session) => {
+        const names = session.merge && session.customName
+          ? session.customName
+          : session.files.map((f) => f.name).join(", ");
+        return (
+          <div key={session.sessionId} className="flex items-center justify-between gap-3 border-t border-primary/20 pt-3">
+            <div className="min-w-0">
+              <p className="text-sm font-medium truncate" title={names}>{names}</p>
+              <p className="text-xs text-muted-foreground">
+                Avviata il {new Date(session.startedAt).toLocaleString("it-IT")} · {session.files.length} file
+              </p>
+            </div>
+            <div className="flex gap-2 shrink-0">
+              <Button
+                data-testid={`button-dismiss-${session.sessionId}`}
+                variant="ghost"
+                size="sm"
+                onClick={() => onDismiss(session.sessionId)}
+              >
+                Ignora
+              </Button>
+              <Button data-testid={`button-resume-${session.sessionId}`} size="sm" onClick={() => onResume(session)}>
+                Riprendi
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+    </motion.div>
+  );
+}
+
+function PdfaBadge({ verified, conformance, expected }: { verified: boolean; conformance: string | null; expected: PdfALevelId }) {
   if (verified) {
     return (
       <span data-testid="badge-pdfa-verified" className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-semibold bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400">
@@ -779,7 +1911,22 @@ function PdfaBadge({ verified, conformance }: { verified: boolean; conformance:
   return (
     <span data-testid="badge-pdfa-failed" className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-semibold bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400">
       <ShieldX className="h-3.5 w-3.5" />
-      Non conforme
+      {conformance ? `${conformance} (atteso ${resolvePdfALevel(expected).label})` : "Non conforme"}
     </span>
   );
 }
+
+function ViolationList({ violations }: { violations: PdfAViolation[] }) {
+  if (violations.length === 0) return null;
+
+  return (
+    <ul data-testid="list-pdfa-violations" className="mt-1 ml-6 space-y-0.5 text-xs text-destructive">
+      {violations.map((v, i) => (
+        <li key={i} className="flex items-start gap-1.5">
+          <X className="h-3 w-3 mt-0.5 shrink-0" />
+          <span>{v.message}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,74 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { checkAccessKey, checkDownloadToken, createAccessKey, signDownloadToken } from "./download-tokens";
+
+// Segreto fisso: il modulo lo legge al primo token firmato
+process.env.DOWNLOAD_TOKEN_SECRET = "segreto-di-prova";
+
+const SESSION = "sessione-di-prova";
+const FUTURE = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+let sessionDir: string;
+
+before(() => {
+  sessionDir = fs.mkdtempSync(path.join(os.tmpdir(), "download-tokens-test-"));
+});
+
+after(() => {
+  fs.rmSync(sessionDir, { recursive: true, force: true });
+});
+
+function reason(check: ReturnType<typeof checkDownloadToken>): string | null {
+  return check.valid ? null : check.reason;
+}
+
+test("token di sessione: valido per lo ZIP e per ogni file, solo per la sua sessione", () => {
+  const token = signDownloadToken(SESSION, { expiresAt: FUTURE });
+  assert.equal(reason(checkDownloadToken(token, SESSION, null, sessionDir)), null);
+  assert.equal(reason(checkDownloadToken(token, SESSION, "documento_PDFA.pdf", sessionDir)), null);
+  assert.equal(reason(checkDownloadToken(token, "altra-sessione", null, sessionDir)), "wrong session");
+});
+
+test("token per un file: rifiutato per lo ZIP e per gli altri file", () => {
+  const token = signDownloadToken(SESSION, { fileName: "a_PDFA.pdf", expiresAt: FUTURE });
+  assert.equal(reason(checkDownloadToken(token, SESSION, "a_PDFA.pdf", sessionDir)), null);
+  assert.equal(reason(checkDownloadToken(token, SESSION, "b_PDFA.pdf", sessionDir)), "wrong file");
+  assert.equal(reason(checkDownloadToken(token, SESSION, null, sessionDir)), "wrong file");
+});
+
+test("token assenti, alterati o scaduti vengono rifiutati", () => {
+  assert.equal(reason(checkDownloadToken(undefined, SESSION, null, sessionDir)), "missing token");
+  assert.equal(reason(checkDownloadToken("senzapunto", SESSION, null, sessionDir)), "missing token");
+
+  const [data, signature] = signDownloadToken(SESSION, { expiresAt: FUTURE }).split(".");
+  const forged = Buffer.from(JSON.stringify({ ...JSON.parse(Buffer.from(data, "base64url").toString()), sessionId: "altra-sessione" })).toString("base64url");
+  assert.equal(reason(checkDownloadToken(`${forged}.${signature}`, "altra-sessione", null, sessionDir)), "bad signature");
+
+  const expired = signDownloadToken(SESSION, { expiresAt: new Date(Date.now() - 1000).toISOString() });
+  assert.equal(reason(checkDownloadToken(expired, SESSION, null, sessionDir)), "expired");
+});
+
+test("token monouso: consumato al primo uso, gli altri token restano validi", () => {
+  const first = signDownloadToken(SESSION, { expiresAt: FUTURE, oneTime: true });
+  const second = signDownloadToken(SESSION, { expiresAt: FUTURE, oneTime: true });
+  assert.equal(reason(checkDownloadToken(first, SESSION, null, sessionDir)), null);
+  assert.equal(reason(checkDownloadToken(first, SESSION, null, sessionDir)), "already used");
+  assert.equal(reason(checkDownloadToken(second, SESSION, null, sessionDir)), null);
+});
+
+test("token monouso dove non sono ammessi: rifiutato senza consumarlo", () => {
+  const token = signDownloadToken(SESSION, { expiresAt: FUTURE, oneTime: true });
+  assert.equal(reason(checkDownloadToken(token, SESSION, null, sessionDir, false)), "one-time token not accepted here");
+  assert.equal(reason(checkDownloadToken(token, SESSION, null, sessionDir)), null);
+});
+
+test("chiave di accesso: su disco solo l'hash, accettata solo la chiave consegnata", () => {
+  const key = createAccessKey(sessionDir);
+  assert.ok(!fs.readFileSync(path.join(sessionDir, "access_key"), "utf-8").includes(key));
+  assert.equal(checkAccessKey(key, sessionDir), true);
+  assert.equal(checkAccessKey(`${key}x`, sessionDir), false);
+  assert.equal(checkAccessKey(undefined, sessionDir), false);
+  assert.equal(checkAccessKey(key, path.join(sessionDir, "inesistente")), false);
+});
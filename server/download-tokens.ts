@@ -0,0 +1,137 @@
+import path from "path";
+import fs from "fs";
+import crypto from "crypto";
+import { log } from "./log";
+
+// Link di download firmati con HMAC-SHA256: il token indica la sessione,
+// facoltativamente un solo file, la scadenza e l'uso singolo.
+// Il segreto viene da DOWNLOAD_TOKEN_SECRET; senza, se ne genera uno a ogni
+// avvio e i link emessi prima di un riavvio non sono più validi.
+// I token monouso già utilizzati sono annotati nella cartella della sessione.
+// Il token riutilizzabile per l'interfaccia non compare nel risultato del job
+// (leggibile da chiunque conosca l'id della sessione): lo ottiene solo chi ha
+// la chiave di accesso consegnata al client che ha avviato la conversione.
+
+export interface DownloadTokenPayload {
+  sessionId: string;
+  // null: ZIP e qualsiasi file della sessione
+  fileName: string | null;
+  expiresAt: number;
+  oneTime: boolean;
+  nonce: string;
+}
+
+let secret: string | null = null;
+
+function getSecret(): string {
+  if (secret) return secret;
+  secret = process.env.DOWNLOAD_TOKEN_SECRET || "";
+  if (!secret) {
+    log("DOWNLOAD_TOKEN_SECRET not set: download links will not survive a restart", "download");
+    secret = crypto.randomBytes(32).toString("hex");
+  }
+  return secret;
+}
+
+const USED_TOKENS_FILE = "used_tokens.json";
+const ACCESS_KEY_FILE = "access_key";
+
+function hashKey(key: string): Buffer {
+  return crypto.createHash("sha256").update(key).digest();
+}
+
+// Chiave di accesso del client che avvia il job; su disco resta solo l'hash
+export function createAccessKey(sessionDir: string): string {
+  const key = crypto.randomBytes(24).toString("base64url");
+  fs.writeFileSync(path.join(sessionDir, ACCESS_KEY_FILE), hashKey(key).toString("hex"), { mode: 0o600 });
+  return key;
+}
+
+export function checkAccessKey(key: unknown, sessionDir: string): boolean {
+  if (typeof key !== "string" || !key) return false;
+  let stored: Buffer;
+  try {
+    stored = Buffer.from(fs.readFileSync(path.join(sessionDir, ACCESS_KEY_FILE), "utf-8"), "hex");
+  } catch {
+    return false;
+  }
+  const received = hashKey(key);
+  return stored.length === received.length && crypto.timingSafeEqual(stored, received);
+}
+
+function sign(data: string): string {
+  return crypto.createHmac("sha256", getSecret()).update(data).digest("base64url");
+}
+
+export function signDownloadToken(
+  sessionId: string,
+  options: { fileName?: string; expiresAt: string; oneTime?: boolean }
+): string {
+  const payload: DownloadTokenPayload = {
+    sessionId,
+    fileName: options.fileName ?? null,
+    expiresAt: new Date(options.expiresAt).getTime(),
+    oneTime: options.oneTime ?? false,
+    nonce: crypto.randomBytes(8).toString("hex"),
+  };
+  const data = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${data}.${sign(data)}`;
+}
+
+export type TokenCheck =
+  | { valid: true; payload: DownloadTokenPayload }
+  | { valid: false; reason: string };
+
+// Verifica firma, sessione, file e scadenza; un token monouso viene consumato qui,
+// prima dell'invio: un download interrotto o un'apertura automatica lo esauriscono.
+// Con allowOneTime false (anteprime) i token monouso sono rifiutati senza consumarli
+export function checkDownloadToken(
+  token: unknown,
+  sessionId: string,
+  fileName: string | null,
+  sessionDir: string,
+  allowOneTime = true
+): TokenCheck {
+  if (typeof token !== "string" || !token.includes(".")) {
+    return { valid: false, reason: "missing token" };
+  }
+  const [data, signature] = token.split(".", 2);
+  const expected = Buffer.from(sign(data));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+    return { valid: false, reason: "bad signature" };
+  }
+
+  let payload: DownloadTokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(data, "base64url").toString("utf8"));
+  } catch {
+    return { valid: false, reason: "malformed payload" };
+  }
+  if (payload.sessionId !== sessionId) {
+    return { valid: false, reason: "wrong session" };
+  }
+  if (payload.fileName !== null && payload.fileName !== fileName) {
+    return { valid: false, reason: "wrong file" };
+  }
+  if (payload.expiresAt < Date.now()) {
+    return { valid: false, reason: "expired" };
+  }
+
+  if (payload.oneTime && !allowOneTime) {
+    return { valid: false, reason: "one-time token not accepted here" };
+  }
+  if (payload.oneTime) {
+    const usedPath = path.join(sessionDir, USED_TOKENS_FILE);
+    let used: string[] = [];
+    try {
+      used = JSON.parse(fs.readFileSync(usedPath, "utf-8"));
+    } catch {}
+    if (used.includes(payload.nonce)) {
+      return { valid: false, reason: "already used" };
+    }
+    fs.writeFileSync(usedPath, JSON.stringify([...used, payload.nonce]));
+  }
+
+  return { valid: true, payload };
+}
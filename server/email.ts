@@ -1,4 +1,12 @@
 import sgMail from '@sendgrid/mail';
+import {
+  formatSizeLimit,
+  formatQuality,
+  type SizeLimit,
+  type PdfALevel,
+  type PdfAViolation,
+  type QualitySettings,
+} from '@shared/schema';
 
 const FROM_EMAIL = "pdfasigitconverter@network.today";
 
@@ -36,8 +44,14 @@ interface ConversionEmailData {
     conformance: string | null;
     wasSplit: boolean;
     parts?: number;
+    violations: PdfAViolation[];
   }>;
   downloadUrl: string;
+  expiresAt: string;
+  oneTimeLink: boolean;
+  sizeLimit: SizeLimit;
+  pdfaLevel: PdfALevel;
+  quality: QualitySettings;
 }
 
 export async function sendConversionEmail(data: ConversionEmailData): Promise<void> {
@@ -53,13 +67,16 @@ export async function sendConversionEmail(data: ConversionEmailData): Promise<vo
     const sizeMB = (f.size / 1024 / 1024).toFixed(2);
     const status = f.verified ? `✅ ${escapeHtml(f.conformance || '')}` : '⚠️ Non conforme';
     const splitInfo = f.wasSplit ? ` (diviso in ${f.parts} parti)` : '';
-    return `<li style="padding:6px 0;border-bottom:1px solid #eee;">${escapeHtml(f.name)}${splitInfo} — ${sizeMB} MB — ${status}</li>`;
+    const violationsHtml = f.violations.length > 0
+      ? `<ul style="margin:4px 0 0 16px;padding:0;font-size:12px;color:#b91c1c;">${f.violations.map(v => `<li>${escapeHtml(v.message)}</li>`).join('')}</ul>`
+      : '';
+    return `<li style="padding:6px 0;border-bottom:1px solid #eee;">${escapeHtml(f.name)}${splitInfo} — ${sizeMB} MB — ${status}${violationsHtml}</li>`;
   }).join('');
 
   const html = `
     <div style="font-family:'Segoe UI',Arial,sans-serif;max-width:600px;margin:0 auto;background:#fff;border-radius:12px;overflow:hidden;border:1px solid #e5e7eb;">
       <div style="background:linear-gradient(135deg,#1e40af,#3b82f6);padding:32px 24px;text-align:center;">
-        <h1 style="color:#fff;margin:0;font-size:22px;">Conversione PDF/A-1b Completata</h1>
+        <h1 style="color:#fff;margin:0;font-size:22px;">Conversione ${data.pdfaLevel.label} Completata</h1>
         <p style="color:rgba(255,255,255,0.85);margin:8px 0 0;font-size:14px;">I tuoi file sono pronti per il download</p>
       </div>
       <div style="padding:24px;">
@@ -67,6 +84,9 @@ export async function sendConversionEmail(data: ConversionEmailData): Promise<vo
           <p style="margin:0;color:#166534;font-weight:600;">
             ${data.fileCount} file convertit${data.fileCount === 1 ? 'o' : 'i'} — ${totalMB} MB totali
           </p>
+          <p style="margin:6px 0 0;color:#166534;font-size:13px;">
+            Qualità: ${escapeHtml(formatQuality(data.quality))}
+          </p>
         </div>
         <h3 style="margin:0 0 12px;font-size:15px;color:#374151;">Dettaglio file:</h3>
         <ul style="list-style:none;padding:0;margin:0 0 20px;font-size:14px;color:#4b5563;">
@@ -78,12 +98,12 @@ export async function sendConversionEmail(data: ConversionEmailData): Promise<vo
           </a>
         </div>
         <p style="font-size:12px;color:#9ca3af;text-align:center;margin-top:16px;">
-          Tutti i file generati rispettano il limite di 9MB per compatibilità SIGIT (Tribunale Telematico).
-          <br>Il link di download è valido finché i file non vengono scaricati.
+          Tutti i file generati rispettano il limite di ${formatSizeLimit(data.sizeLimit)} per compatibilità ${escapeHtml(data.sizeLimit.label)}.
+          <br>Il link di download è valido fino al ${escapeHtml(new Date(data.expiresAt).toLocaleString("it-IT", { timeZone: "Europe/Rome" }))} ${data.oneTimeLink ? "e può essere usato una sola volta: il primo accesso lo esaurisce, anche se il download si interrompe o se il link viene aperto automaticamente da un filtro antispam o antivirus" : "e può essere usato più volte"}.
         </p>
       </div>
       <div style="background:#f9fafb;padding:16px 24px;text-align:center;border-top:1px solid #e5e7eb;">
-        <p style="margin:0;font-size:12px;color:#9ca3af;">Convertitore PDF/A-1b — ISO 19005-1</p>
+        <p style="margin:0;font-size:12px;color:#9ca3af;">Convertitore ${data.pdfaLevel.label} — ${data.pdfaLevel.standard}</p>
       </div>
     </div>
   `;
@@ -91,7 +111,7 @@ export async function sendConversionEmail(data: ConversionEmailData): Promise<vo
   await sgMail.send({
     to: data.recipientEmail,
     from: FROM_EMAIL,
-    subject: `Conversione PDF/A-1b completata — ${data.fileCount} file pront${data.fileCount === 1 ? 'o' : 'i'}`,
+    subject: `Conversione ${data.pdfaLevel.label} completata — ${data.fileCount} file pront${data.fileCount === 1 ? 'o' : 'i'}`,
     html,
   });
 }
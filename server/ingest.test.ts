@@ -0,0 +1,99 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { parseTiffInfo, pngHasTransparency } from "./ingest";
+
+// Solo firma e intestazioni dei blocchi: pngHasTransparency non legge i dati né i CRC
+function chunk(type: string, data: Buffer = Buffer.alloc(0)): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  return Buffer.concat([length, Buffer.from(type, "latin1"), data, Buffer.alloc(4)]);
+}
+
+function png(colorType: number, extraChunks: Buffer[] = []): Buffer {
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(100, 0);
+  ihdr.writeUInt32BE(50, 4);
+  ihdr[8] = 8;
+  ihdr[9] = colorType;
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk("IHDR", ihdr),
+    ...extraChunks,
+    chunk("IDAT", Buffer.alloc(10)),
+    chunk("IEND"),
+  ]);
+}
+
+function withFile(data: Buffer, check: (filePath: string) => void) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "ingest-test-"));
+  try {
+    const filePath = path.join(dir, "upload");
+    fs.writeFileSync(filePath, data);
+    check(filePath);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+test("PNG RGBA e grigio con alfa sono trasparenti", () => {
+  withFile(png(6), (file) => assert.equal(pngHasTransparency(file), true));
+  withFile(png(4), (file) => assert.equal(pngHasTransparency(file), true));
+});
+
+test("PNG RGB senza tRNS non è trasparente", () => {
+  withFile(png(2, [chunk("tEXt", Buffer.from("Comment\0screenshot"))]), (file) => assert.equal(pngHasTransparency(file), false));
+});
+
+test("PNG a palette con blocco tRNS è trasparente", () => {
+  withFile(png(3, [chunk("PLTE", Buffer.alloc(6)), chunk("tRNS", Buffer.from([0]))]), (file) => assert.equal(pngHasTransparency(file), true));
+});
+
+test("i file non PNG non vengono considerati", () => {
+  withFile(Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0, 16, 0x4a, 0x46, 0x49, 0x46]), (file) => assert.equal(pngHasTransparency(file), false));
+  withFile(Buffer.alloc(0), (file) => assert.equal(pngHasTransparency(file), false));
+});
+
+// Output di tiffinfo per una scansione di tre pagine: G4 bianco/nero, LZW a colori, palette
+const TIFFINFO_OUTPUT = `=== TIFF directory 0 ===
+TIFF Directory at offset 0x8 (8)
+  Image Width: 2480 Image Length: 3508
+  Resolution: 300, 300 pixels/inch
+  Bits/Sample: 1
+  Compression Scheme: CCITT Group 4
+  Photometric Interpretation: min-is-white
+  Samples/Pixel: 1
+  Planar Configuration: single image plane
+=== TIFF directory 1 ===
+TIFF Directory at offset 0x1a2b4 (107188)
+  Image Width: 2480 Image Length: 3508
+  Bits/Sample: 8
+  Compression Scheme: LZW
+  Photometric Interpretation: RGB color
+  Samples/Pixel: 3
+  Predictor: horizontal differencing 2 (0x2)
+=== TIFF directory 2 ===
+TIFF Directory at offset 0x9f0e2 (651490)
+  Image Width: 1240 Image Length: 1754
+  Bits/Sample: 4
+  Compression Scheme: PackBits
+  Photometric Interpretation: palette color (RGB from colormap)
+  Color Map: (present)
+`;
+
+test("tiffinfo: una voce per pagina con profondità, canali e fotometria", () => {
+  assert.deepEqual(parseTiffInfo(TIFFINFO_OUTPUT), [
+    { index: 0, bitsPerSample: 1, samplesPerPixel: 1, photometric: "min-is-white" },
+    { index: 1, bitsPerSample: 8, samplesPerPixel: 3, photometric: "RGB color" },
+    { index: 2, bitsPerSample: 4, samplesPerPixel: 1, photometric: "palette color (RGB from colormap)" },
+  ]);
+});
+
+test("tiffinfo: valori di ripiego per i campi mancanti, nessuna pagina senza directory", () => {
+  assert.deepEqual(parseTiffInfo("TIFF Directory at offset 0x8 (8)\n  Image Width: 10 Image Length: 10\n"), [
+    { index: 0, bitsPerSample: 8, samplesPerPixel: 1, photometric: "" },
+  ]);
+  assert.deepEqual(parseTiffInfo("tiffinfo: Not a TIFF file, bad magic number 20553 (0x5049)"), []);
+});
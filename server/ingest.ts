@@ -0,0 +1,274 @@
+import path from "path";
+import fs from "fs";
+import { gsWorkers } from "./queue";
+import { execQpdf, applyPageEdits } from "./qpdf";
+import { extractCadesPdf } from "./signatures";
+import { execFileAsync } from "./processes";
+import { detectInputKind, type CadesSignature, type InputKind, type PageEdit } from "@shared/schema";
+
+// Conversione in PDF degli upload che non lo sono già:
+// - immagini (JPEG, PNG) con img2pdf, su pagina A4; i PNG trasparenti vengono prima
+//   appiattiti su sfondo bianco con ImageMagick (img2pdf rifiuta il canale alfa)
+// - TIFF multipagina con libtiff (tiffinfo, tiffcp, tiff2pdf), compressione scelta pagina per pagina
+// - documenti d'ufficio (DOCX, DOC, ODT, RTF) con LibreOffice headless
+// - buste CAdES (.p7m) con OpenSSL: il PDF estratto non è più firmato
+// In modalità unione i file, già convertiti in PDF, vengono concatenati con qpdf.
+
+function missingTool(err: any, tool: string): Error {
+  if (err.code === "ENOENT") {
+    return new Error(`${tool} non è installato sul server`);
+  }
+  return err;
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// PNG con canale alfa (tipo colore 4 o 6) o con colore trasparente (blocco tRNS,
+// che precede sempre i dati IDAT). Si leggono solo le intestazioni dei blocchi
+export function pngHasTransparency(filePath: string): boolean {
+  const fd = fs.openSync(filePath, "r");
+  try {
+    const header = Buffer.alloc(8);
+    if (fs.readSync(fd, header, 0, 8, 0) < 8 || !header.equals(PNG_SIGNATURE)) return false;
+    let position = 8;
+    while (fs.readSync(fd, header, 0, 8, position) === 8) {
+      const length = header.readUInt32BE(0);
+      const type = header.toString("latin1", 4, 8);
+      if (type === "IHDR") {
+        const colorType = Buffer.alloc(1);
+        fs.readSync(fd, colorType, 0, 1, position + 17);
+        if (colorType[0] === 4 || colorType[0] === 6) return true;
+      } else if (type === "tRNS") {
+        return true;
+      } else if (type === "IDAT" || type === "IEND") {
+        return false;
+      }
+      position += length + 12;
+    }
+    return false;
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+async function imageToPdf(inputPath: string, outputPath: string): Promise<void> {
+  let source = inputPath;
+  const flatPath = outputPath + "_flat.png";
+  try {
+    if (pngHasTransparency(inputPath)) {
+      try {
+        await gsWorkers.run(() => execFileAsync("convert", [
+          `png:${inputPath}`,
+          "-background", "white",
+          "-alpha", "remove",
+          "-alpha", "off",
+          flatPath,
+        ], { maxBuffer: 50 * 1024 * 1024 }));
+      } catch (err: any) {
+        throw missingTool(err, "ImageMagick");
+      }
+      source = flatPath;
+    }
+
+    try {
+      await gsWorkers.run(() => execFileAsync("img2pdf", [
+        "--pagesize", "A4",
+        "--fit", "into",
+        "--auto-orient",
+        "-o", outputPath,
+        source,
+      ], { maxBuffer: 50 * 1024 * 1024 }));
+    } catch (err: any) {
+      if (err.code === "ENOENT" || err.name === "AbortError") throw missingTool(err, "img2pdf");
+      throw new Error("Immagine non convertibile in PDF: file danneggiato o formato non supportato");
+    }
+  } finally {
+    try { fs.unlinkSync(flatPath); } catch {}
+  }
+}
+
+export interface TiffPage {
+  index: number;
+  bitsPerSample: number;
+  samplesPerPixel: number;
+  photometric: string;
+}
+
+export interface TiffSummary {
+  pages: number;
+  bilevel: number;
+  recompressed: number;
+}
+
+// Una voce per directory (pagina) dell'output di tiffinfo
+export function parseTiffInfo(output: string): TiffPage[] {
+  return output
+    .split(/TIFF Directory at offset/)
+    .slice(1)
+    .map((block, index) => {
+      const field = (name: string) => block.match(new RegExp(`${name}:\\s*([^\\n]+)`))?.[1].trim() ?? "";
+      return {
+        index,
+        bitsPerSample: parseInt(field("Bits/Sample"), 10) || 8,
+        samplesPerPixel: parseInt(field("Samples/Pixel"), 10) || 1,
+        photometric: field("Photometric Interpretation"),
+      };
+    });
+}
+
+// Pagine bianco/nero: CCITT G4 (anche se in origine LZW), incorporate senza ricompressione.
+// Pagine a colori o in scala di grigi: ricompresse in JPEG; palette e profondità
+// diverse da 8 bit in Flate. In nessun caso resta compressione LZW (vietata da PDF/A-1).
+async function tiffToPdf(inputPath: string, outputPath: string): Promise<TiffSummary> {
+  const workDir = outputPath + "_tiff";
+  fs.mkdirSync(workDir, { recursive: true });
+
+  try {
+    let info: string;
+    try {
+      ({ stdout: info } = await execFileAsync("tiffinfo", [inputPath], { maxBuffer: 50 * 1024 * 1024 }));
+    } catch (err: any) {
+      throw missingTool(err, "libtiff (tiffinfo)");
+    }
+    const pages = parseTiffInfo(info);
+    if (pages.length === 0) {
+      throw new Error("Nessuna pagina trovata nel file TIFF");
+    }
+
+    let bilevel = 0;
+    const pagePdfs = await Promise.all(pages.map(page => gsWorkers.run(async () => {
+      const pageTiff = path.join(workDir, `page_${page.index}.tif`);
+      const pagePdf = path.join(workDir, `page_${page.index}.pdf`);
+      const isBilevel = page.bitsPerSample === 1 && page.samplesPerPixel === 1;
+      const isPalette = /palette/i.test(page.photometric);
+
+      if (isBilevel) {
+        bilevel++;
+        await execFileAsync("tiffcp", ["-c", "g4", `${inputPath},${page.index}`, pageTiff]);
+        await execFileAsync("tiff2pdf", ["-x", "300", "-y", "300", "-o", pagePdf, pageTiff]);
+      } else {
+        await execFileAsync("tiffcp", ["-c", "none", `${inputPath},${page.index}`, pageTiff]);
+        const compression = !isPalette && page.bitsPerSample === 8 ? ["-j", "-q", "85"] : ["-z"];
+        await execFileAsync("tiff2pdf", [...compression, "-x", "300", "-y", "300", "-o", pagePdf, pageTiff]);
+      }
+
+      try { fs.unlinkSync(pageTiff); } catch {}
+      return pagePdf;
+    })));
+
+    await execQpdf(["--empty", "--pages", ...pagePdfs, "--", outputPath]);
+    return { pages: pages.length, bilevel, recompressed: pages.length - bilevel };
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+}
+
+async function officeToPdf(inputPath: string, extension: string, outputPath: string): Promise<void> {
+  const workDir = outputPath + "_office";
+  fs.mkdirSync(workDir, { recursive: true });
+
+  // LibreOffice riconosce il formato dall'estensione; multer salva i file senza
+  const namedInput = path.join(workDir, `documento${extension}`);
+  fs.copyFileSync(inputPath, namedInput);
+
+  try {
+    await gsWorkers.run(() => execFileAsync("soffice", [
+      // Profilo separato per ogni conversione: istanze concorrenti non si bloccano a vicenda
+      `-env:UserInstallation=file://${path.join(workDir, "profile")}`,
+      "--headless",
+      "--norestore",
+      "--convert-to", "pdf",
+      "--outdir", workDir,
+      namedInput,
+    ], { maxBuffer: 50 * 1024 * 1024, timeout: 10 * 60 * 1000, processGroup: true }));
+
+    const producedPath = path.join(workDir, "documento.pdf");
+    if (!fs.existsSync(producedPath)) {
+      throw new Error("LibreOffice non ha prodotto alcun PDF");
+    }
+    fs.renameSync(producedPath, outputPath);
+  } catch (err: any) {
+    throw missingTool(err, "LibreOffice");
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+}
+
+// Dettagli da riportare all'utente: riepilogo pagine dei TIFF, firme delle buste .p7m
+export interface IngestDetails {
+  tiff?: TiffSummary;
+  cades?: CadesSignature[];
+}
+
+export async function convertInputToPdf(
+  inputPath: string,
+  originalName: string,
+  kind: Exclude<InputKind, "pdf">,
+  outputPath: string
+): Promise<IngestDetails> {
+  switch (kind) {
+    case "tiff":
+      return { tiff: await tiffToPdf(inputPath, outputPath) };
+    case "p7m":
+      return { cades: await extractCadesPdf(inputPath, outputPath) };
+    case "image":
+      await imageToPdf(inputPath, outputPath);
+      return {};
+    case "office":
+      await officeToPdf(inputPath, path.extname(originalName).toLowerCase(), outputPath);
+      return {};
+  }
+}
+
+export interface UploadedInput {
+  path: string;
+  originalName: string;
+  mimeType: string;
+  // Modifiche dall'organizzatore di pagine, applicate dopo l'eventuale conversione in PDF
+  pageEdits: PageEdit[] | null;
+}
+
+// Concatena gli upload nell'ordine ricevuto; quelli non PDF vengono prima convertiti
+export async function mergeInputsToPdf(
+  inputs: UploadedInput[],
+  outputPath: string,
+  onFile?: (index: number, input: UploadedInput) => void
+): Promise<IngestDetails[]> {
+  const workDir = outputPath + "_merge";
+  fs.mkdirSync(workDir, { recursive: true });
+
+  try {
+    const pdfPaths: string[] = [];
+    const details: IngestDetails[] = [];
+    for (let i = 0; i < inputs.length; i++) {
+      const input = inputs[i];
+      onFile?.(i, input);
+      const kind = detectInputKind(input.originalName, input.mimeType);
+      let pdfPath = input.path;
+      details.push({});
+      if (kind && kind !== "pdf") {
+        pdfPath = path.join(workDir, `input_${i}.pdf`);
+        try {
+          details[i] = await convertInputToPdf(input.path, input.originalName, kind, pdfPath);
+        } catch (err: any) {
+          throw new Error(`Impossibile convertire ${input.originalName} in PDF: ${err.message}`);
+        }
+      }
+      if (input.pageEdits) {
+        const editedPath = path.join(workDir, `edited_${i}.pdf`);
+        try {
+          await applyPageEdits(pdfPath, input.pageEdits, editedPath);
+        } catch (err: any) {
+          throw new Error(`Modifiche alle pagine non applicabili a ${input.originalName}: ${err.message}`);
+        }
+        pdfPath = editedPath;
+      }
+      pdfPaths.push(pdfPath);
+    }
+
+    await execQpdf(["--empty", "--pages", ...pdfPaths, "--", outputPath]);
+    return details;
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,12 @@
+// Fuori da index.ts: i moduli che registrano nel log si possono importare
+// (ad es. nei test) senza avviare il server
+export function log(message: string, source = "express") {
+  const formattedTime = new Date().toLocaleTimeString("en-US", {
+    hour: "numeric",
+    minute: "2-digit",
+    second: "2-digit",
+    hour12: true,
+  });
+
+  console.log(`${formattedTime} [${source}] ${message}`);
+}
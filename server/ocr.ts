@@ -0,0 +1,76 @@
+import path from "path";
+import fs from "fs";
+import { execQpdf, getPageCount } from "./qpdf";
+import { gsWorkers } from "./queue";
+import { execFileAsync } from "./processes";
+
+// OCR con Tesseract locale: ogni pagina viene rasterizzata con Ghostscript,
+// Tesseract produce una pagina PDF con solo il testo invisibile (textonly_pdf)
+// e qpdf la applica come sottofondo alla pagina originale.
+
+export const OCR_LANGUAGES = "ita+eng";
+const OCR_DPI = 300;
+
+async function ocrPage(inputPath: string, page: number, workDir: string): Promise<string> {
+  const imagePath = path.join(workDir, `page_${page}.png`);
+  const textBase = path.join(workDir, `page_${page}`);
+
+  await gsWorkers.run(() => execFileAsync("gs", [
+    "-dSAFER",
+    "-dBATCH",
+    "-dNOPAUSE",
+    "-sDEVICE=pnggray",
+    `-r${OCR_DPI}`,
+    `-dFirstPage=${page}`,
+    `-dLastPage=${page}`,
+    `-sOutputFile=${imagePath}`,
+    inputPath,
+  ], { maxBuffer: 50 * 1024 * 1024 }));
+
+  try {
+    await gsWorkers.run(() => execFileAsync("tesseract", [
+      imagePath,
+      textBase,
+      "-l", OCR_LANGUAGES,
+      "--dpi", String(OCR_DPI),
+      "-c", "textonly_pdf=1",
+      "pdf",
+    ], { maxBuffer: 50 * 1024 * 1024 }));
+  } catch (err: any) {
+    if (err.code === "ENOENT") {
+      throw new Error("OCR non disponibile: Tesseract non è installato sul server");
+    }
+    throw err;
+  } finally {
+    try { fs.unlinkSync(imagePath); } catch {}
+  }
+
+  return `${textBase}.pdf`;
+}
+
+export async function addOcrTextLayer(
+  inputPath: string,
+  outputPath: string,
+  onPage?: (done: number, total: number) => void
+): Promise<void> {
+  const totalPages = await getPageCount(inputPath);
+  const workDir = outputPath + "_ocr";
+  fs.mkdirSync(workDir, { recursive: true });
+
+  try {
+    let done = 0;
+    const pages = Array.from({ length: totalPages }, (_, i) => i + 1);
+    const textPages = await Promise.all(pages.map(async (page) => {
+      const textPdf = await ocrPage(inputPath, page, workDir);
+      done++;
+      if (onPage) onPage(done, totalPages);
+      return textPdf;
+    }));
+
+    const textLayerPath = path.join(workDir, "text_layer.pdf");
+    await execQpdf(["--empty", "--pages", ...textPages, "--", textLayerPath]);
+    await execQpdf([inputPath, "--underlay", textLayerPath, "--", outputPath]);
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+}
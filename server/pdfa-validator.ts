@@ -0,0 +1,285 @@
+import { execQpdf } from "./qpdf";
+import type { PdfALevel, PdfARuleId, PdfAViolation } from "@shared/schema";
+
+// Validatore strutturale PDF/A basato sull'output JSON di qpdf (--json=2, qpdf >= 11).
+// Controlla le regole principali di ISO 19005-1 livello B; per PDF/A-2b e -3b
+// le trasparenze sono ammesse e il relativo controllo viene saltato.
+
+export interface PdfAValidationResult {
+  valid: boolean;
+  conformance: string | null;
+  violations: PdfAViolation[];
+}
+
+// Valori del JSON v2 di qpdf: i nomi sono stringhe "/Nome", i riferimenti "N G R",
+// le stringhe PDF "u:testo" o "b:esadecimale"
+type QpdfValue = null | boolean | number | string | QpdfValue[] | QpdfDict;
+
+interface QpdfDict {
+  [key: string]: QpdfValue;
+}
+
+interface QpdfObject {
+  value?: QpdfValue;
+  stream?: { dict: QpdfDict };
+}
+
+interface QpdfJson {
+  qpdf?: [unknown, Record<string, QpdfObject>];
+  encrypt?: { encrypted?: boolean };
+}
+
+const MAX_VIOLATIONS_PER_RULE = 5;
+const REF_REGEX = /^(\d+) (\d+) R$/;
+
+// Corrispondenza tra chiavi del dizionario Info e proprietà XMP (ISO 19005-1, 6.7.3)
+const INFO_TO_XMP: Record<string, string> = {
+  "/Title": "dc:title",
+  "/Author": "dc:creator",
+  "/Subject": "dc:description",
+  "/Keywords": "pdf:Keywords",
+  "/Creator": "xmp:CreatorTool",
+  "/Producer": "pdf:Producer",
+};
+
+const FORBIDDEN_ACTIONS = new Set(["/JavaScript", "/Launch"]);
+
+function asDict(value: QpdfValue | undefined): QpdfDict | null {
+  return value && typeof value === "object" && !Array.isArray(value) ? value : null;
+}
+
+function decodePdfString(value: QpdfValue | undefined): string {
+  if (typeof value !== "string") return "";
+  if (value.startsWith("u:")) return value.slice(2);
+  if (value.startsWith("b:")) return Buffer.from(value.slice(2), "hex").toString("latin1");
+  return value;
+}
+
+function decodeXmlText(text: string): string {
+  return text
+    .replace(/<[^>]+>/g, "")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_m, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&amp;/g, "&")
+    .trim();
+}
+
+function extractXmpProperty(xmp: string, name: string): string | null {
+  const escaped = name.replace(":", "\\:");
+  const element = xmp.match(new RegExp(`<${escaped}[^>]*>([\\s\\S]*?)</${escaped}>`));
+  if (element) return decodeXmlText(element[1]);
+  const attribute = xmp.match(new RegExp(`${escaped}\\s*=\\s*["']([^"']*)["']`));
+  if (attribute) return decodeXmlText(attribute[1]);
+  return null;
+}
+
+function filterNames(filter: QpdfValue | undefined): string[] {
+  if (typeof filter === "string") return [filter];
+  if (Array.isArray(filter)) return filter.filter((f): f is string => typeof f === "string");
+  return [];
+}
+
+class PdfAInspector {
+  private violations: PdfAViolation[] = [];
+  private counts = new Map<PdfARuleId, number>();
+
+  constructor(private objects: Record<string, QpdfObject>) {}
+
+  report(): PdfAViolation[] {
+    const summary: PdfAViolation[] = [];
+    this.counts.forEach((count, rule) => {
+      if (count > MAX_VIOLATIONS_PER_RULE) {
+        summary.push({ rule, message: `… e altre ${count - MAX_VIOLATIONS_PER_RULE} violazioni della stessa regola` });
+      }
+    });
+    return [...this.violations, ...summary];
+  }
+
+  add(rule: PdfARuleId, message: string, object?: string) {
+    const count = (this.counts.get(rule) ?? 0) + 1;
+    this.counts.set(rule, count);
+    if (count <= MAX_VIOLATIONS_PER_RULE) {
+      this.violations.push({ rule, message, object });
+    }
+  }
+
+  // Restituisce il dizionario (o il dizionario dello stream) di un valore, seguendo i riferimenti
+  resolve(value: QpdfValue | undefined): QpdfDict | null {
+    if (typeof value === "string" && REF_REGEX.test(value)) {
+      const entry = this.objects[`obj:${value}`];
+      if (!entry) return null;
+      return entry.stream ? entry.stream.dict : asDict(entry.value);
+    }
+    return asDict(value);
+  }
+
+  resolveArray(value: QpdfValue | undefined): QpdfValue[] {
+    if (Array.isArray(value)) return value;
+    if (typeof value === "string" && REF_REGEX.test(value)) {
+      const entry = this.objects[`obj:${value}`];
+      const resolved = entry?.value;
+      if (Array.isArray(resolved)) return resolved;
+    }
+    return [];
+  }
+
+  isStream(value: QpdfValue | undefined): value is string {
+    return typeof value === "string" && !!this.objects[`obj:${value}`]?.stream;
+  }
+
+  entries(): [string, QpdfDict, boolean][] {
+    const result: [string, QpdfDict, boolean][] = [];
+    for (const [key, entry] of Object.entries(this.objects)) {
+      if (!key.startsWith("obj:")) continue;
+      const ref = key.slice(4);
+      if (entry.stream) {
+        result.push([ref, entry.stream.dict, true]);
+      } else {
+        const dict = asDict(entry.value);
+        if (dict) result.push([ref, dict, false]);
+      }
+    }
+    return result;
+  }
+}
+
+async function readStream(filePath: string, ref: string): Promise<string | null> {
+  const match = ref.match(REF_REGEX);
+  if (!match) return null;
+  const { stdout } = await execQpdf(
+    [`--show-object=${match[1]},${match[2]}`, "--filtered-stream-data", filePath],
+    { maxBuffer: 50 * 1024 * 1024 },
+  );
+  return stdout;
+}
+
+function checkFonts(inspector: PdfAInspector, ref: string, dict: QpdfDict) {
+  const subtype = dict["/Subtype"];
+  // Type3: glifi definiti nel file; Type0: si controllano i CIDFont discendenti
+  if (subtype === "/Type3" || subtype === "/Type0") return;
+
+  const fontName = dict["/BaseFont"];
+  const baseFont = typeof fontName === "string" ? fontName.slice(1) : ref;
+  const descriptor = inspector.resolve(dict["/FontDescriptor"]);
+  const embedded = !!descriptor && ["/FontFile", "/FontFile2", "/FontFile3"].some(k => k in descriptor);
+  if (!embedded) {
+    inspector.add("font-embedding", `Font non incorporato: ${baseFont}`, ref);
+  }
+}
+
+function checkActions(inspector: PdfAInspector, ref: string, dict: QpdfDict) {
+  const action = dict["/S"];
+  if (typeof action === "string" && FORBIDDEN_ACTIONS.has(action)) {
+    inspector.add("actions", `Azione ${action.slice(1)} non ammessa`, ref);
+  } else if ("/JS" in dict) {
+    inspector.add("actions", "Codice JavaScript non ammesso", ref);
+  }
+}
+
+function checkTransparency(inspector: PdfAInspector, ref: string, dict: QpdfDict) {
+  const group = inspector.resolve(dict["/Group"]);
+  if (group && group["/S"] === "/Transparency") {
+    inspector.add("transparency", "Gruppo di trasparenza non ammesso in PDF/A-1", ref);
+  }
+  const smask = dict["/SMask"];
+  if (smask !== undefined && smask !== "/None") {
+    inspector.add("transparency", "Maschera di trasparenza (SMask) non ammessa in PDF/A-1", ref);
+  }
+}
+
+function checkInfoConsistency(inspector: PdfAInspector, info: QpdfDict, xmp: string) {
+  for (const [infoKey, xmpName] of Object.entries(INFO_TO_XMP)) {
+    if (!(infoKey in info)) continue;
+    const infoValue = decodePdfString(info[infoKey]).trim();
+    if (!infoValue) continue;
+    const xmpValue = extractXmpProperty(xmp, xmpName);
+    if (xmpValue === null) {
+      inspector.add("info-consistency", `${infoKey.slice(1)} presente nel dizionario Info ma assente nei metadati XMP (${xmpName})`);
+    } else if (xmpValue !== infoValue) {
+      inspector.add("info-consistency", `${infoKey.slice(1)} diverso tra dizionario Info e metadati XMP (${xmpName})`);
+    }
+  }
+}
+
+export async function validatePdfA(filePath: string, expected: PdfALevel): Promise<PdfAValidationResult> {
+  let json: QpdfJson;
+  try {
+    const { stdout } = await execQpdf(
+      ["--json=2", "--json-key=qpdf", "--json-key=encrypt", filePath],
+      { maxBuffer: 500 * 1024 * 1024 },
+    );
+    json = JSON.parse(stdout);
+  } catch (err: any) {
+    return {
+      valid: false,
+      conformance: null,
+      violations: [{ rule: "structure", message: `Impossibile analizzare il PDF: ${err.message}` }],
+    };
+  }
+
+  const objects: Record<string, QpdfObject> = json.qpdf?.[1] ?? {};
+  const inspector = new PdfAInspector(objects);
+  const trailer = asDict(objects.trailer?.value) ?? {};
+  const catalog = inspector.resolve(trailer["/Root"]);
+
+  if (json.encrypt?.encrypted || "/Encrypt" in trailer) {
+    inspector.add("encryption", "Il file è cifrato");
+  }
+
+  if (!catalog) {
+    inspector.add("structure", "Catalogo del documento non trovato");
+    return { valid: false, conformance: null, violations: inspector.report() };
+  }
+
+  // Metadati XMP e identificazione PDF/A
+  let conformance: string | null = null;
+  const metadataRef = catalog["/Metadata"];
+  const xmp = inspector.isStream(metadataRef) ? await readStream(filePath, metadataRef).catch(() => null) : null;
+  if (!xmp) {
+    inspector.add("xmp-metadata", "Metadati XMP assenti nel catalogo");
+  } else {
+    const part = extractXmpProperty(xmp, "pdfaid:part");
+    const level = extractXmpProperty(xmp, "pdfaid:conformance");
+    if (!part) {
+      inspector.add("xmp-metadata", "Identificazione PDF/A (pdfaid:part) assente nei metadati XMP");
+    } else {
+      conformance = `PDF/A-${part}${(level || "B").toLowerCase()}`;
+      if (parseInt(part, 10) !== expected.part) {
+        inspector.add("xmp-metadata", `Il file dichiara ${conformance} invece di ${expected.label}`);
+      }
+    }
+
+    const info = inspector.resolve(trailer["/Info"]);
+    if (info) checkInfoConsistency(inspector, info, xmp);
+  }
+
+  // OutputIntent con profilo ICC incorporato
+  const intents = inspector.resolveArray(catalog["/OutputIntents"])
+    .map(i => inspector.resolve(i))
+    .filter((i): i is QpdfDict => !!i && i["/S"] === "/GTS_PDFA1");
+  if (intents.length === 0) {
+    inspector.add("output-intent", "OutputIntent GTS_PDFA1 assente");
+  } else if (!intents.some(i => inspector.isStream(i["/DestOutputProfile"]))) {
+    inspector.add("output-intent", "OutputIntent senza profilo ICC incorporato (DestOutputProfile)");
+  }
+
+  const names = inspector.resolve(catalog["/Names"]);
+  if (names && "/JavaScript" in names) {
+    inspector.add("actions", "Albero dei nomi JavaScript nel catalogo");
+  }
+
+  for (const [ref, dict, isStream] of inspector.entries()) {
+    if (dict["/Type"] === "/Font") checkFonts(inspector, ref, dict);
+    checkActions(inspector, ref, dict);
+    if (expected.part === 1) checkTransparency(inspector, ref, dict);
+    if (isStream && filterNames(dict["/Filter"]).includes("/LZWDecode")) {
+      inspector.add("lzw", "Compressione LZW non ammessa", ref);
+    }
+  }
+
+  const violations = inspector.report();
+  return { valid: violations.length === 0, conformance, violations };
+}
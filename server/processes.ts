@@ -0,0 +1,111 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { execFile, spawn, type ExecFileOptions } from "child_process";
+
+// Processi esterni (gs, qpdf, tesseract, soffice, ...) legati al job che li avvia.
+// Il segnale di annullamento del job segue il flusso asincrono della conversione:
+// quando DELETE /api/jobs/:id lo attiva, ogni processo ancora in corso viene
+// terminato e quelli successivi non partono nemmeno.
+
+const jobSignal = new AsyncLocalStorage<AbortSignal>();
+
+// Esegue la pipeline di un job: il segnale vale per tutto il codice asincrono avviato da fn
+// e per nient'altro (la richiesta HTTP che l'ha avviata compresa)
+export function runWithJobSignal<T>(signal: AbortSignal, fn: () => Promise<T>): Promise<T> {
+  return jobSignal.run(signal, fn);
+}
+
+function abortError(): Error {
+  return Object.assign(new Error("Conversione annullata"), { name: "AbortError" });
+}
+
+// onStdout riceve l'output man mano che arriva (ad es. "Page N" di Ghostscript);
+// l'output completo resta comunque nel risultato.
+// processGroup: per i lanciatori che avviano a loro volta il vero programma
+// (soffice → soffice.bin), vedi runProcessGroup
+export function execFileAsync(
+  file: string,
+  args: string[],
+  { onStdout, processGroup, ...options }: ExecFileOptions & {
+    onStdout?: (data: string) => void;
+    processGroup?: boolean;
+  } = {}
+): Promise<{ stdout: string; stderr: string }> {
+  const signal = jobSignal.getStore();
+  if (signal?.aborted) {
+    return Promise.reject(abortError());
+  }
+  if (processGroup) {
+    return runProcessGroup(file, args, options, signal);
+  }
+
+  return new Promise((resolve, reject) => {
+    const child = execFile(
+      file,
+      args,
+      { killSignal: "SIGKILL", ...options, signal, encoding: "utf8" },
+      (error, stdout, stderr) => {
+        if (error) {
+          reject(Object.assign(error, { stdout, stderr }));
+        } else {
+          resolve({ stdout, stderr });
+        }
+      },
+    );
+    if (onStdout) child.stdout?.on("data", (data) => onStdout(String(data)));
+  });
+}
+
+// Il processo parte in un gruppo proprio (execFile non supporta detached): a
+// annullamento, timeout e uscita si termina l'intero gruppo, così non restano
+// figli orfani che il SIGKILL al solo lanciatore non raggiungerebbe
+function runProcessGroup(
+  file: string,
+  args: string[],
+  { timeout, maxBuffer = 1024 * 1024, cwd, env }: ExecFileOptions,
+  signal: AbortSignal | undefined
+): Promise<{ stdout: string; stderr: string }> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(file, args, { cwd, env, detached: true, stdio: ["ignore", "pipe", "pipe"] });
+    let stdout = "";
+    let stderr = "";
+    let timedOut = false;
+
+    const killGroup = () => {
+      if (child.pid === undefined) return;
+      try { process.kill(-child.pid, "SIGKILL"); } catch {}
+    };
+    const timer = timeout ? setTimeout(() => { timedOut = true; killGroup(); }, timeout) : null;
+    signal?.addEventListener("abort", killGroup, { once: true });
+
+    child.stdout.setEncoding("utf8").on("data", (data: string) => {
+      if (stdout.length < maxBuffer) stdout += data;
+    });
+    child.stderr.setEncoding("utf8").on("data", (data: string) => {
+      if (stderr.length < maxBuffer) stderr += data;
+    });
+
+    let settled = false;
+    const finish = (error: Error | null) => {
+      if (settled) return;
+      settled = true;
+      if (timer) clearTimeout(timer);
+      signal?.removeEventListener("abort", killGroup);
+      // Il lanciatore può uscire lasciando figli ancora attivi
+      killGroup();
+      if (signal?.aborted) {
+        reject(Object.assign(abortError(), { stdout, stderr }));
+      } else if (error) {
+        reject(Object.assign(error, { stdout, stderr }));
+      } else {
+        resolve({ stdout, stderr });
+      }
+    };
+
+    child.on("error", finish);
+    child.on("close", (code, killSignal) => {
+      if (code === 0) return finish(null);
+      const reason = timedOut ? "timeout" : killSignal ? `signal ${killSignal}` : `exit code ${code}`;
+      finish(Object.assign(new Error(`Command failed (${reason}): ${file} ${args.join(" ")}`), { code, killed: !!killSignal }));
+    });
+  });
+}
@@ -0,0 +1,42 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { getEncryptionState } from "./qpdf";
+
+// qpdf finto nel PATH: esce con il codice scritto nel file passato come ultimo argomento
+let binDir: string;
+let originalPath: string | undefined;
+
+before(() => {
+  binDir = fs.mkdtempSync(path.join(os.tmpdir(), "qpdf-test-"));
+  const script = path.join(binDir, "qpdf");
+  fs.writeFileSync(script, '#!/bin/sh\nfor last; do :; done\nexit "$(cat "$last")"\n', { mode: 0o755 });
+  originalPath = process.env.PATH;
+  process.env.PATH = `${binDir}${path.delimiter}${originalPath ?? ""}`;
+});
+
+after(() => {
+  process.env.PATH = originalPath;
+  fs.rmSync(binDir, { recursive: true, force: true });
+});
+
+function pdfExitingWith(code: number): string {
+  const file = path.join(binDir, `exit_${code}.pdf`);
+  fs.writeFileSync(file, String(code));
+  return file;
+}
+
+test("--requires-password: exit code 0 significa password utente", async () => {
+  assert.equal(await getEncryptionState(pdfExitingWith(0)), "password");
+});
+
+test("--requires-password: exit code 2 non cifrato, 3 solo restrizioni", async () => {
+  assert.equal(await getEncryptionState(pdfExitingWith(2)), "none");
+  assert.equal(await getEncryptionState(pdfExitingWith(3)), "restrictions");
+});
+
+test("--requires-password: gli altri errori vengono propagati", async () => {
+  await assert.rejects(getEncryptionState(pdfExitingWith(1)), (err: any) => err.code === 1);
+});
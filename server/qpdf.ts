@@ -0,0 +1,113 @@
+import fs from "fs";
+import type { ExecFileOptions } from "child_process";
+import { log } from "./log";
+import { execFileAsync } from "./processes";
+import type { PageEdit } from "@shared/schema";
+
+// Wrapper per qpdf che gestisce i warning come successi
+export async function execQpdf(args: string[], options: ExecFileOptions = {}): Promise<{ stdout: string; stderr: string }> {
+  try {
+    return await execFileAsync("qpdf", args, { ...options, encoding: "utf8" });
+  } catch (error: any) {
+    // qpdf può restituire exit code != 0 anche con "operation succeeded with warnings"
+    // Se c'è output valido su stdout, lo usiamo
+    if (error.name !== "AbortError" && (error.stdout || error.stderr)) {
+      const stderr = typeof error.stderr === 'string' ? error.stderr : error.stderr?.toString('utf8') || '';
+      // Controlla se qpdf dice che l'operazione è riuscita con warning
+      if (stderr.includes('operation succeeded with warnings') || stderr.includes('WARNING:')) {
+        const stdout = typeof error.stdout === 'string' ? error.stdout : error.stdout?.toString('utf8') || '';
+        log(`qpdf completed with warnings: ${stderr.substring(0, 200)}`);
+        return { stdout, stderr };
+      }
+    }
+    throw error;
+  }
+}
+
+export async function getPageCount(pdfPath: string): Promise<number> {
+  const result = await execQpdf(["--show-npages", pdfPath]);
+  return parseInt(result.stdout.trim(), 10);
+}
+
+// Applica ordine, eliminazioni e rotazioni scelti nell'organizzatore di pagine.
+// L'originale resta documento principale (metadati e segnalibri restano);
+// le pagine di --rotate si riferiscono al documento prodotto, non all'originale.
+export async function applyPageEdits(inputPath: string, edits: PageEdit[], outputPath: string): Promise<void> {
+  const totalPages = await getPageCount(inputPath);
+  const outOfRange = edits.find(e => e.page > totalPages);
+  if (outOfRange) {
+    throw new Error(`Pagina ${outOfRange.page} inesistente (il documento ha ${totalPages} pagine)`);
+  }
+
+  const byRotation = new Map<number, number[]>();
+  edits.forEach((edit, index) => {
+    if (edit.rotation === 0) return;
+    const pages = byRotation.get(edit.rotation) ?? [];
+    pages.push(index + 1);
+    byRotation.set(edit.rotation, pages);
+  });
+  const rotateArgs = Array.from(byRotation.entries()).map(([angle, pages]) => `--rotate=+${angle}:${pages.join(",")}`);
+
+  await execQpdf([
+    inputPath,
+    "--pages", ".", edits.map(e => e.page).join(","), "--",
+    ...rotateArgs,
+    outputPath,
+  ]);
+}
+
+// "password": serve la password utente per aprirlo; "restrictions": solo password
+// proprietario (stampa/copia limitate), rimovibili senza password
+export type EncryptionState = "none" | "restrictions" | "password";
+
+export async function getEncryptionState(pdfPath: string): Promise<EncryptionState> {
+  try {
+    await execFileAsync("qpdf", ["--requires-password", pdfPath]);
+    return "password";
+  } catch (err: any) {
+    // Exit code 2: non cifrato (è anche il codice di errore generico di qpdf: un file
+    // illeggibile fallirà comunque nei passaggi successivi); 3: cifrato senza password utente
+    if (err.code === 2) return "none";
+    if (err.code === 3) return "restrictions";
+    throw err;
+  }
+}
+
+// La password passa da un file temporaneo per non comparire nell'elenco dei processi
+export async function decryptPdf(inputPath: string, outputPath: string, password?: string): Promise<void> {
+  const passwordFile = `${outputPath}.pw`;
+  const args = ["--decrypt", inputPath, outputPath];
+  if (password !== undefined) {
+    fs.writeFileSync(passwordFile, password, { mode: 0o600 });
+    args.unshift(`--password-file=${passwordFile}`);
+  }
+  try {
+    await execQpdf(args);
+  } catch (err: any) {
+    const stderr = typeof err.stderr === "string" ? err.stderr : "";
+    if (/invalid password/i.test(stderr)) {
+      throw new Error("Password non valida");
+    }
+    throw err;
+  } finally {
+    try { fs.unlinkSync(passwordFile); } catch {}
+  }
+}
+
+export interface OutlineEntry {
+  title: string;
+  page: number;
+}
+
+// Segnalibri di primo livello con la pagina di destinazione (da 1), ordinati per pagina
+export async function getTopLevelOutline(pdfPath: string): Promise<OutlineEntry[]> {
+  const { stdout } = await execQpdf(
+    ["--json=2", "--json-key=outlines", pdfPath],
+    { maxBuffer: 100 * 1024 * 1024 },
+  );
+  const outlines: any[] = JSON.parse(stdout).outlines ?? [];
+  return outlines
+    .filter(o => typeof o.destpageposfrom1 === "number")
+    .map(o => ({ title: String(o.title ?? "").trim(), page: o.destpageposfrom1 as number }))
+    .sort((a, b) => a.page - b.page);
+}
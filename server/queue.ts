@@ -0,0 +1,135 @@
+import os from "os";
+import type { QueueStatus } from "@shared/schema";
+
+// Coda di conversione condivisa da tutte le sessioni.
+// - ConversionQueue limita i job (sessioni) elaborati contemporaneamente
+// - WorkerPool limita i processi Ghostscript attivi sull'intero server
+
+function readPositiveInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || "", 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export const WORKER_BUDGET = readPositiveInt("CONVERSION_WORKERS", Math.max(1, os.cpus().length));
+export const MAX_CONCURRENT_JOBS = readPositiveInt("CONVERSION_MAX_JOBS", 2);
+
+// Stima iniziale prima che sia terminato almeno un job: 10 secondi per MB
+const DEFAULT_MS_PER_BYTE = 10_000 / (1024 * 1024);
+
+export class WorkerPool {
+  private active = 0;
+  private waiters: (() => void)[] = [];
+
+  constructor(readonly size: number) {}
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active >= this.size) {
+      await new Promise<void>(resolve => this.waiters.push(resolve));
+    }
+    this.active++;
+    try {
+      return await task();
+    } finally {
+      this.active--;
+      this.waiters.shift()?.();
+    }
+  }
+}
+
+interface QueuedJob {
+  id: string;
+  sizeBytes: number;
+  onWaiting?: (status: QueueStatus) => void;
+  start: () => void;
+}
+
+interface RunningJob {
+  sizeBytes: number;
+  startedAt: number;
+}
+
+export class ConversionQueue {
+  private waiting: QueuedJob[] = [];
+  private running = new Map<string, RunningJob>();
+  private msPerByte = DEFAULT_MS_PER_BYTE;
+
+  constructor(readonly maxJobs: number) {}
+
+  // Risolve quando il job può partire; la funzione restituita libera il posto.
+  // Se il job viene annullato mentre è in attesa esce dalla coda e la promessa viene rifiutata
+  acquire(job: {
+    id: string;
+    sizeBytes: number;
+    onWaiting?: (status: QueueStatus) => void;
+    signal?: AbortSignal;
+  }): Promise<() => void> {
+    return new Promise((resolve, reject) => {
+      const { signal, ...queued } = job;
+      if (signal?.aborted) {
+        reject(new Error("Job annullato"));
+        return;
+      }
+      const onAbort = () => {
+        this.waiting = this.waiting.filter(w => w.id !== job.id);
+        this.notifyWaiting();
+        reject(new Error("Job annullato"));
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.waiting.push({
+        ...queued,
+        start: () => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve(() => this.release(job.id));
+        },
+      });
+      this.dispatch();
+    });
+  }
+
+  get pending(): number {
+    return this.waiting.length;
+  }
+
+  private release(id: string) {
+    const job = this.running.get(id);
+    if (!job) return;
+    this.running.delete(id);
+    if (job.sizeBytes > 0) {
+      const observed = (Date.now() - job.startedAt) / job.sizeBytes;
+      // Media mobile esponenziale della velocità osservata
+      this.msPerByte = this.msPerByte * 0.7 + observed * 0.3;
+    }
+    this.dispatch();
+  }
+
+  private dispatch() {
+    while (this.running.size < this.maxJobs && this.waiting.length > 0) {
+      const next = this.waiting.shift()!;
+      this.running.set(next.id, { sizeBytes: next.sizeBytes, startedAt: Date.now() });
+      next.start();
+    }
+    this.notifyWaiting();
+  }
+
+  // Simula l'assegnazione dei posti liberi per stimare l'orario di avvio di ogni job in attesa
+  private notifyWaiting() {
+    const now = Date.now();
+    const slots = Array.from(this.running.values()).map(job =>
+      Math.max(0, job.sizeBytes * this.msPerByte - (now - job.startedAt)),
+    );
+    while (slots.length < this.maxJobs) slots.push(0);
+
+    this.waiting.forEach((job, index) => {
+      const slot = slots.indexOf(Math.min(...slots));
+      const startsIn = slots[slot];
+      slots[slot] += job.sizeBytes * this.msPerByte;
+      job.onWaiting?.({
+        position: index + 1,
+        estimatedStart: new Date(now + startsIn).toISOString(),
+      });
+    });
+  }
+}
+
+export const gsWorkers = new WorkerPool(WORKER_BUDGET);
+export const conversionQueue = new ConversionQueue(MAX_CONCURRENT_JOBS);
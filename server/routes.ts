@@ -1,39 +1,66 @@
-import type { Express, Response } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
-import { execFile } from "child_process";
-import { promisify } from "util";
+import crypto from "crypto";
 import archiver from "archiver";
-import { log } from "./index";
+import { log } from "./log";
 import { sendConversionEmail, isValidEmail } from "./email";
-
-const execFileAsync = promisify(execFile);
-
-// Wrapper per qpdf che gestisce i warning come successi
-async function execQpdf(args: string[], options?: any): Promise<{ stdout: string; stderr: string }> {
-  try {
-    return await execFileAsync("qpdf", args, options);
-  } catch (error: any) {
-    // qpdf può restituire exit code != 0 anche con "operation succeeded with warnings"
-    // Se c'è output valido su stdout, lo usiamo
-    if (error.stdout || error.stderr) {
-      const stderr = typeof error.stderr === 'string' ? error.stderr : error.stderr?.toString('utf8') || '';
-      // Controlla se qpdf dice che l'operazione è riuscita con warning
-      if (stderr.includes('operation succeeded with warnings') || stderr.includes('WARNING:')) {
-        const stdout = typeof error.stdout === 'string' ? error.stdout : error.stdout?.toString('utf8') || '';
-        log(`qpdf completed with warnings: ${stderr.substring(0, 200)}`);
-        return { stdout, stderr };
-      }
-    }
-    throw error;
-  }
-}
+import { execQpdf, getPageCount, getTopLevelOutline, applyPageEdits, getEncryptionState, decryptPdf } from "./qpdf";
+import { validatePdfA } from "./pdfa-validator";
+import { conversionQueue, gsWorkers, WORKER_BUDGET } from "./queue";
+import { addOcrTextLayer, OCR_LANGUAGES } from "./ocr";
+import { SplitPlanner, type PageRange } from "./split-planner";
+import { renderPageThumbnail, resolveThumbnailSize } from "./thumbnails";
+import { findSignatures } from "./signatures";
+import { signDownloadToken, checkDownloadToken, createAccessKey, checkAccessKey } from "./download-tokens";
+import { convertInputToPdf, mergeInputsToPdf, type UploadedInput } from "./ingest";
+import {
+  createUpload,
+  getUpload,
+  appendChunk,
+  takeCompletedUploads,
+  discardUpload,
+  CHUNK_SIZE,
+  MAX_UPLOAD_BYTES,
+} from "./uploads";
+import { execFileAsync, runWithJobSignal } from "./processes";
+import {
+  resolveSizeLimit,
+  formatSizeLimit,
+  resolvePdfALevel,
+  resolveQuality,
+  formatQuality,
+  resolveSplitMode,
+  detectInputKind,
+  parsePageEdits,
+  stripInputExtension,
+  ACCEPTED_FORMATS_LABEL,
+  SIGNED_FILE_ACTIONS,
+  type SizeLimit,
+  type PdfALevel,
+  type PdfAViolation,
+  type QualitySettings,
+  type SignatureInfo,
+  type SignedFileAction,
+  type CadesSignature,
+  type PartVerification,
+  type ConvertedFile,
+  type ConversionResult,
+  type SignedFileReport,
+  type SignatureCheck,
+  type PasswordCheck,
+  type JobPhase,
+  type JobStatus,
+  type ProgressEvent,
+  type ProgressStage,
+  progressEventSchema,
+  toPercent,
+} from "@shared/schema";
 
 const UPLOAD_DIR = path.resolve("/tmp/pdfa_uploads");
 const OUTPUT_DIR = path.resolve("/tmp/pdfa_output");
-const MAX_SIZE_BYTES = 9 * 1024 * 1024; // 9 MB
 
 function ensureDir(dir: string) {
   if (!fs.existsSync(dir)) {
@@ -43,21 +70,16 @@ function ensureDir(dir: string) {
 
 const upload = multer({
   dest: UPLOAD_DIR,
-  limits: { fileSize: 100 * 1024 * 1024 },
+  limits: { fileSize: MAX_UPLOAD_BYTES },
   fileFilter: (_req, file, cb) => {
-    if (file.mimetype === "application/pdf" || file.originalname.toLowerCase().endsWith(".pdf")) {
+    if (detectInputKind(file.originalname, file.mimetype)) {
       cb(null, true);
     } else {
-      cb(new Error("Solo file PDF sono accettati"));
+      cb(new Error(`Formato non supportato: ${file.originalname}. Sono accettati ${ACCEPTED_FORMATS_LABEL}.`));
     }
   },
 });
 
-async function getPageCount(pdfPath: string): Promise<number> {
-  const result = await execQpdf(["--show-npages", pdfPath]);
-  return parseInt(result.stdout.trim(), 10);
-}
-
 import { fileURLToPath } from "url";
 
 const __server_dir = (() => {
@@ -80,79 +102,65 @@ function resolveServerFile(filename: string): string {
   return candidates[0];
 }
 
-async function findPageRangesForSize(convertedPdfPath: string, maxSize: number): Promise<{ start: number; end: number }[]> {
-  const totalPages = await getPageCount(convertedPdfPath);
-  const fileSize = fs.statSync(convertedPdfPath).size;
-
-  if (totalPages <= 1) {
-    return [{ start: 1, end: 1 }];
-  }
-
-  const tmpDir = path.dirname(convertedPdfPath);
-  let tmpCounter = 0;
-
-  async function extractSize(start: number, end: number): Promise<number> {
-    tmpCounter++;
-    const tmpPath = path.join(tmpDir, `__size_probe_${tmpCounter}.pdf`);
-    await execQpdf([
-      convertedPdfPath,
-      "--pages", convertedPdfPath, `${start}-${end}`, "--",
-      tmpPath,
-    ]);
-    const size = fs.statSync(tmpPath).size;
-    fs.unlinkSync(tmpPath);
-    return size;
-  }
-
-  const avgPageSize = fileSize / totalPages;
-  const estimatedPagesPerChunk = Math.max(1, Math.floor((maxSize * 0.85) / avgPageSize));
+interface BookmarkSection extends PageRange {
+  title: string;
+}
 
-  const ranges: { start: number; end: number }[] = [];
-  let currentPage = 1;
+// Sezioni delimitate dai segnalibri di primo livello; le pagine prima del
+// primo segnalibro vengono incluse nella prima sezione
+async function findBookmarkSections(pdfPath: string): Promise<BookmarkSection[]> {
+  const totalPages = await getPageCount(pdfPath);
+  const entries = (await getTopLevelOutline(pdfPath))
+    .filter((entry, i, all) => entry.page <= totalPages && (i === 0 || entry.page !== all[i - 1].page));
+
+  return entries.map((entry, i) => ({
+    title: entry.title || `Sezione ${i + 1}`,
+    start: i === 0 ? 1 : entry.page,
+    end: i + 1 < entries.length ? entries[i + 1].page - 1 : totalPages,
+  }));
+}
 
-  while (currentPage <= totalPages) {
-    if (currentPage + estimatedPagesPerChunk - 1 >= totalPages) {
-      const size = await extractSize(currentPage, totalPages);
-      if (size <= maxSize) {
-        ranges.push({ start: currentPage, end: totalPages });
-        break;
-      }
-    }
+function sanitizeFileName(name: string, maxLength = 80): string {
+  return name
+    .replace(/[<>:"/\\|?*\x00-\x1f]/g, "_")
+    .replace(/\s+/g, " ")
+    .trim()
+    .substring(0, maxLength)
+    .trim();
+}
 
-    let candidateEnd = Math.min(currentPage + estimatedPagesPerChunk - 1, totalPages);
-    let size = await extractSize(currentPage, candidateEnd);
+const ICC_PROFILE_PATH = resolveServerFile("srgb.icc");
+const PDFA_DEF_TEMPLATE = resolveServerFile("PDFA_def.ps");
 
-    if (size <= maxSize) {
-      let probes = 0;
-      while (candidateEnd + 1 <= totalPages && probes < 10) {
-        const nextSize = await extractSize(currentPage, candidateEnd + 1);
-        probes++;
-        if (nextSize > maxSize) break;
-        candidateEnd++;
-        size = nextSize;
-      }
-    } else {
-      while (candidateEnd > currentPage) {
-        candidateEnd--;
-        size = await extractSize(currentPage, candidateEnd);
-        if (size <= maxSize) break;
-      }
-      if (candidateEnd === currentPage && size > maxSize) {
-        // single page exceeds limit - accept it and move on
-      }
-    }
+// Impostazioni Ghostscript scelte per il singolo job
+interface ConversionSettings {
+  pdfaLevel: PdfALevel;
+  quality: QualitySettings;
+}
 
-    ranges.push({ start: currentPage, end: candidateEnd });
-    currentPage = candidateEnd + 1;
+function qualityArgs(quality: QualitySettings): string[] {
+  const args = [`-dPDFSETTINGS=${quality.pdfSettings}`];
+  if (quality.profileId === "custom") {
+    args.push(
+      "-dDownsampleColorImages=true",
+      "-dDownsampleGrayImages=true",
+      "-dDownsampleMonoImages=true",
+      `-dColorImageResolution=${quality.colorDpi}`,
+      `-dGrayImageResolution=${quality.grayDpi}`,
+      `-dMonoImageResolution=${quality.monoDpi}`,
+    );
   }
-
-  return ranges;
+  return args;
 }
 
-const ICC_PROFILE_PATH = resolveServerFile("srgb.icc");
-const PDFA_DEF_TEMPLATE = resolveServerFile("PDFA_def.ps");
-
-async function convertToPdfA(inputPath: string, outputPath: string): Promise<void> {
+// onPage riceve le pagine completate, lette dalle righe "Page N" che Ghostscript
+// scrive su stdout all'inizio di ogni pagina
+async function convertToPdfA(
+  inputPath: string,
+  outputPath: string,
+  settings: ConversionSettings,
+  onPage?: (pagesDone: number) => void
+): Promise<void> {
   const iccPath = fs.existsSync(ICC_PROFILE_PATH)
     ? ICC_PROFILE_PATH
     : path.resolve("server/srgb.icc");
@@ -163,17 +171,19 @@ async function convertToPdfA(inputPath: string, outputPath: string): Promise<voi
 
   const tmpDefPath = outputPath + ".pdfa_def.ps";
   const templateContent = fs.readFileSync(templatePath, "utf-8");
-  fs.writeFileSync(tmpDefPath, templateContent.replace("__SRGB_ICC_PATH__", iccPath));
+  fs.writeFileSync(tmpDefPath, templateContent
+    .replace(/__PDFA_LABEL__/g, settings.pdfaLevel.label)
+    .replace(/__SRGB_ICC_PATH__/g, iccPath));
 
   const args = [
-    "-dPDFA=1",
+    `-dPDFA=${settings.pdfaLevel.part}`,
     "-dBATCH",
     "-dNOPAUSE",
     "-dNOOUTERSAVE",
     "-sColorConversionStrategy=UseDeviceIndependentColor",
     "-sDEVICE=pdfwrite",
     "-dPDFACompatibilityPolicy=1",
-    `-dPDFSETTINGS=/ebook`,
+    ...qualityArgs(settings.quality),
     "-dBandBufferSpace=500000000",
     "-dBufferSpace=1000000000",
     "-sBandListStorage=memory",
@@ -186,8 +196,24 @@ async function convertToPdfA(inputPath: string, outputPath: string): Promise<voi
     inputPath,
   ];
 
+  let lastPage = 0;
+  let pendingLine = "";
+  const onStdout = onPage && ((data: string) => {
+    const lines = (pendingLine + data).split("\n");
+    pendingLine = lines.pop() ?? "";
+    for (const line of lines) {
+      const match = /^Page (\d+)/.exec(line.trim());
+      if (match) {
+        lastPage = parseInt(match[1], 10);
+        onPage(lastPage - 1);
+      }
+    }
+  });
+
   try {
-    await execFileAsync("gs", args, { maxBuffer: 500 * 1024 * 1024 });
+    await gsWorkers.run(() => execFileAsync("gs", args, { maxBuffer: 500 * 1024 * 1024, onStdout }));
+    // A processo terminato anche l'ultima pagina iniziata è completa
+    onPage?.(lastPage);
   } finally {
     try { fs.unlinkSync(tmpDefPath); } catch {}
   }
@@ -197,16 +223,17 @@ async function convertToPdfA(inputPath: string, outputPath: string): Promise<voi
 async function convertToPdfAParallel(
   inputPath: string,
   outputPath: string,
-  onProgress?: (current: number, total: number) => void
+  settings: ConversionSettings,
+  onProgress?: (pagesDone: number, totalPages: number) => void
 ): Promise<void> {
-  const NUM_WORKERS = 8; // Number of parallel Ghostscript processes (matches available CPUs)
+  const NUM_WORKERS = WORKER_BUDGET; // Chunks per file; running gs processes are capped server-wide by gsWorkers
   const MIN_PAGES_FOR_PARALLEL = 16; // Minimum pages to benefit from parallelization
 
   const totalPages = await getPageCount(inputPath);
 
   // If PDF is too small, use single-threaded conversion
   if (totalPages < MIN_PAGES_FOR_PARALLEL) {
-    return convertToPdfA(inputPath, outputPath);
+    return convertToPdfA(inputPath, outputPath, settings, onProgress && (done => onProgress(done, totalPages)));
   }
 
   const tmpDir = path.dirname(outputPath);
@@ -241,12 +268,22 @@ async function convertToPdfAParallel(
       ])
     ));
 
+    // Progress in pages across all chunks. With several chunks the merged file is
+    // converted again, so every page goes through gs twice and both passes count
+    const passes = chunks.length > 1 ? 2 : 1;
+    const chunkPagesDone = chunks.map(() => 0);
+    let mergedPagesDone = 0;
+    const reportPages = () => {
+      const work = chunkPagesDone.reduce((acc, done) => acc + done, 0) + mergedPagesDone;
+      onProgress?.(Math.floor(work / passes), totalPages);
+    };
+
     // Step 2: Convert chunks in parallel
-    let completed = 0;
-    await Promise.all(chunks.map(async (chunk) => {
-      await convertToPdfA(chunk.chunkPath, chunk.convertedPath);
-      completed++;
-      if (onProgress) onProgress(completed, chunks.length);
+    await Promise.all(chunks.map(async (chunk, i) => {
+      await convertToPdfA(chunk.chunkPath, chunk.convertedPath, settings, (done) => {
+        chunkPagesDone[i] = done;
+        reportPages();
+      });
       // Cleanup original chunk
       try { fs.unlinkSync(chunk.chunkPath); } catch {}
     }));
@@ -272,7 +309,10 @@ async function convertToPdfAParallel(
 
       // Reconvert merged file to PDF/A to ensure compliance
       // This fixes EOL markers and other compliance issues introduced by qpdf
-      await convertToPdfA(tempMergedPath, outputPath);
+      await convertToPdfA(tempMergedPath, outputPath, settings, (done) => {
+        mergedPagesDone = done;
+        reportPages();
+      });
 
       // Cleanup temp merged file
       try { fs.unlinkSync(tempMergedPath); } catch {}
@@ -292,61 +332,91 @@ async function convertToPdfAParallel(
   }
 }
 
-async function verifyPdfA(filePath: string): Promise<{ valid: boolean; conformance: string | null }> {
-  try {
-    const buffer = fs.readFileSync(filePath);
-    const content = buffer.toString("latin1");
-
-    const partMatch = content.match(/pdfaid:part[>"'\s=]*(\d+)/i);
-    const confMatch = content.match(/pdfaid:conformance[>"'\s=]*([A-Za-z]+)/i);
-
-    if (partMatch) {
-      const part = partMatch[1];
-      const conformance = confMatch ? confMatch[1].toUpperCase() : "B";
-      return { valid: true, conformance: `PDF/A-${part}${conformance.toLowerCase()}` };
-    }
-
-    return { valid: false, conformance: null };
-  } catch {
-    return { valid: false, conformance: null };
-  }
-}
-
 function cleanupDir(dir: string) {
   if (fs.existsSync(dir)) {
     fs.rmSync(dir, { recursive: true, force: true });
   }
 }
 
-interface PartVerification {
-  name: string;
-  size: number;
-  verified: boolean;
-  conformance: string | null;
-}
-
-interface ConvertedFile {
-  originalName: string;
-  outputName: string;
-  outputSize: number;
-  wasSplit: boolean;
-  parts?: number;
-  verified: boolean;
-  conformance: string | null;
-  partsDetail?: PartVerification[];
-}
-
 interface SessionProgress {
-  logs: { type: string; message?: string; data?: any }[];
+  logs: ProgressEvent[];
   clients: Set<Response>;
   done: boolean;
+  job: JobStatus;
+  // File caricati del job in UPLOAD_DIR, da non rimuovere con la pulizia finché il job è attivo
+  uploadPaths: string[];
+  pendingInput?: PendingInput;
+  // Annullamento da DELETE /api/jobs/:id: termina i processi del job (vedi processes.ts)
+  abort: AbortController;
 }
 
+// Risposta dell'utente attesa dal job prima di entrare in coda, per indice di file caricato:
+// scelte sui file firmati o password dei file protetti
+type PendingInput =
+  | { kind: "signatures"; resolve: (actions: Record<number, SignedFileAction>) => void }
+  | { kind: "passwords"; resolve: (passwords: Record<number, string> | "abort") => void };
+type PendingInputValue<K extends PendingInput["kind"]> = Parameters<Extract<PendingInput, { kind: K }>["resolve"]>[0];
+
 const progressStore = new Map<string, SessionProgress>();
 
-function broadcastToSession(sessionId: string, event: { type: string; message?: string; data?: any }) {
+const SESSION_ID_REGEX = /^[a-z0-9]+$/;
+
+function jobFilePath(sessionId: string): string {
+  return path.join(OUTPUT_DIR, sessionId, "job.json");
+}
+
+function updateJob(sessionId: string, update: (job: JobStatus) => void) {
+  const session = progressStore.get(sessionId);
+  // Dopo l'annullamento lo stato resta "cancelled" anche se la pipeline non si è ancora fermata
+  if (!session || session.job.phase === "cancelled") return;
+  update(session.job);
+  session.job.updatedAt = new Date().toISOString();
+  try {
+    fs.writeFileSync(jobFilePath(sessionId), JSON.stringify(session.job));
+  } catch (err: any) {
+    log(`Unable to persist job status for ${sessionId}: ${err.message}`);
+  }
+}
+
+function readJob(sessionId: string): JobStatus | null {
+  const session = progressStore.get(sessionId);
+  if (session) return session.job;
+  const jobPath = jobFilePath(sessionId);
+  if (!fs.existsSync(jobPath)) return null;
+  let job: JobStatus;
+  try {
+    job = JSON.parse(fs.readFileSync(jobPath, "utf-8"));
+  } catch {
+    return null;
+  }
+  // Job non concluso ma assente dalla memoria: il server è stato riavviato durante
+  // la conversione, che non riprenderà più (chi la riprende dal browser lo deve sapere)
+  if (job.phase !== "done" && job.phase !== "error" && job.phase !== "cancelled") {
+    return { ...job, phase: "error", error: "Conversione interrotta dal riavvio del server, ricarica i file" };
+  }
+  return job;
+}
+
+// Gli eventi passano dallo stesso schema usato dal client, che scarterebbe quelli non validi:
+// vengono segnalati nel log e non inviati. Un risultato o un errore non valido diventa un
+// errore generico, altrimenti il client resterebbe in attesa della fine del job.
+// Non lancia mai: è chiamata anche dalle callback di gs e della coda
+function validateProgressEvent(event: ProgressEvent): ProgressEvent | null {
+  const parsed = progressEventSchema.safeParse(event);
+  if (parsed.success) return event;
+  const issues = parsed.error.issues.map(issue => `${issue.path.join(".")}: ${issue.message}`).join("; ");
+  log(`Invalid "${event.type}" progress event dropped: ${issues}`);
+  if (event.type === "result" || event.type === "error") {
+    return { type: "error", message: "Errore interno durante la conversione, riprova" };
+  }
+  return null;
+}
+
+function broadcastToSession(sessionId: string, outgoing: ProgressEvent) {
   const session = progressStore.get(sessionId);
-  if (!session) return;
+  if (!session || session.job.phase === "cancelled") return;
+  const event = validateProgressEvent(outgoing);
+  if (!event) return;
   session.logs.push(event);
   const payload = `data: ${JSON.stringify(event)}\n\n`;
   session.clients.forEach((client) => {
@@ -356,6 +426,57 @@ function broadcastToSession(sessionId: string, event: { type: string; message?:
   });
 }
 
+// Minuti concessi per rispondere (file firmati, password), poi il job viene annullato
+const USER_INPUT_TIMEOUT_MINUTES = 15;
+
+function waitForUserInput<K extends PendingInput["kind"]>(
+  sessionId: string,
+  kind: K
+): Promise<PendingInputValue<K> | null> {
+  const session = progressStore.get(sessionId);
+  if (!session || session.abort.signal.aborted) return Promise.resolve(null);
+  return new Promise(resolve => {
+    const finish = (value: PendingInputValue<K> | null) => {
+      clearTimeout(timer);
+      session.abort.signal.removeEventListener("abort", onAbort);
+      session.pendingInput = undefined;
+      resolve(value);
+    };
+    const onAbort = () => finish(null);
+    const timer = setTimeout(onAbort, USER_INPUT_TIMEOUT_MINUTES * 60 * 1000);
+    session.abort.signal.addEventListener("abort", onAbort, { once: true });
+    session.pendingInput = { kind, resolve: finish };
+  });
+}
+
+const MAX_PASSWORD_ATTEMPTS = 5;
+
+// Sostituisce l'upload con la copia decifrata (senza password per le sole restrizioni)
+async function decryptInPlace(filePath: string, password?: string): Promise<void> {
+  const decryptedPath = `${filePath}.decrypted`;
+  await decryptPdf(filePath, decryptedPath, password);
+  fs.renameSync(decryptedPath, filePath);
+}
+
+function formatSignature(signature: SignatureInfo): string {
+  const signer = signature.signer ?? "firmatario sconosciuto";
+  const time = signature.signingTime
+    ? new Date(signature.signingTime).toLocaleString("it-IT", { timeZone: "Europe/Rome" })
+    : "data non indicata";
+  return `${signer}, ${time}`;
+}
+
+function formatCadesSignature(signature: CadesSignature): string {
+  const base = formatSignature({ signer: signature.signer, signingTime: signature.signingTime, fieldName: null, subFilter: null });
+  const validity = signature.certificateNotAfter
+    ? ` (scadenza ${new Date(signature.certificateNotAfter).toLocaleDateString("it-IT")})`
+    : "";
+  const chain = signature.chainVerified === null
+    ? "catena di certificazione non verificata"
+    : `catena di certificazione ${signature.chainVerified ? "verificata" : "NON verificata"}`;
+  return `${base} · firma ${signature.signatureValid ? "integra" : "NON integra"} · certificato ${signature.certificateInPeriod ? "nel" : "fuori dal"} periodo di validità alla data di firma${validity} · ${chain}`;
+}
+
 function cleanupSession(sessionId: string, delay = 60000) {
   setTimeout(() => {
     progressStore.delete(sessionId);
@@ -364,6 +485,34 @@ function cleanupSession(sessionId: string, delay = 60000) {
 
 const ONE_HOUR_MS = 60 * 60 * 1000;
 
+// Conservazione dei file convertiti dopo la fine del job (DOWNLOAD_EXPIRY_HOURS, default 24 ore)
+const DOWNLOAD_EXPIRY_MS = (() => {
+  const hours = parseFloat(process.env.DOWNLOAD_EXPIRY_HOURS || "");
+  return (Number.isFinite(hours) && hours > 0 ? hours : 24) * ONE_HOUR_MS;
+})();
+
+// Sessioni completate: scadenza del job; upload e sessioni non completate: un'ora dall'ultima modifica
+function expiryTime(dir: string, entry: string, mtimeMs: number): number {
+  const expiresAt = dir === OUTPUT_DIR && SESSION_ID_REGEX.test(entry) ? readJob(entry)?.result?.expiresAt : null;
+  return expiresAt ? new Date(expiresAt).getTime() : mtimeMs + ONE_HOUR_MS;
+}
+
+function isExpired(sessionId: string): boolean {
+  const expiresAt = readJob(sessionId)?.result?.expiresAt;
+  return !!expiresAt && new Date(expiresAt).getTime() < Date.now();
+}
+
+// Job ancora in memoria (in coda, in attesa di risposta o in conversione, anche da più di
+// un'ora): la loro cartella di sessione e i loro upload, copie decifrate incluse, restano
+function belongsToLiveJob(dir: string, entry: string): boolean {
+  if (dir === OUTPUT_DIR) return progressStore.has(entry);
+  const fullPath = path.join(dir, entry);
+  for (const session of Array.from(progressStore.values())) {
+    if (session.uploadPaths.some(p => fullPath === p || fullPath.startsWith(`${p}.`))) return true;
+  }
+  return false;
+}
+
 function cleanupOldFiles() {
   for (const dir of [OUTPUT_DIR, UPLOAD_DIR]) {
     if (!fs.existsSync(dir)) continue;
@@ -371,10 +520,11 @@ function cleanupOldFiles() {
       const entries = fs.readdirSync(dir);
       const now = Date.now();
       for (const entry of entries) {
+        if (belongsToLiveJob(dir, entry)) continue;
         const fullPath = path.join(dir, entry);
         try {
           const stat = fs.statSync(fullPath);
-          if (now - stat.mtimeMs > ONE_HOUR_MS) {
+          if (now > expiryTime(dir, entry, stat.mtimeMs)) {
             if (stat.isDirectory()) {
               fs.rmSync(fullPath, { recursive: true, force: true });
             } else {
@@ -396,12 +546,96 @@ export async function registerRoutes(
   app: Express
 ): Promise<Server> {
 
+  app.post("/api/uploads", (req, res) => {
+    try {
+      const created = createUpload(UPLOAD_DIR, req.body?.fileName, req.body?.mimeType, req.body?.size);
+      res.status(201).json({ uploadId: created.id, chunkSize: CHUNK_SIZE, received: 0 });
+    } catch (err: any) {
+      res.status(400).json({ message: err.message });
+    }
+  });
+
+  app.get("/api/uploads/:id", (req, res) => {
+    const found = getUpload(req.params.id);
+    if (!found) {
+      return res.status(404).json({ message: "Caricamento non trovato o scaduto" });
+    }
+    res.json({ uploadId: found.id, size: found.size, received: found.received, chunkSize: CHUNK_SIZE });
+  });
+
+  // Blocco successivo: corpo binario, header Upload-Offset con i byte già inviati
+  app.patch("/api/uploads/:id", async (req, res) => {
+    const found = getUpload(req.params.id);
+    if (!found) {
+      return res.status(404).json({ message: "Caricamento non trovato o scaduto" });
+    }
+    const offset = parseInt(String(req.headers["upload-offset"] ?? ""), 10);
+    if (found.writing || offset !== found.received) {
+      return res.status(409).json({ message: "Offset non valido, riprendi dai byte ricevuti", received: found.received });
+    }
+
+    try {
+      const received = await appendChunk(found, req);
+      res.json({ received, complete: received >= found.size });
+    } catch (err: any) {
+      log(`Upload chunk failed for ${found.fileName}: ${err.message}`);
+      if (!res.headersSent && !req.destroyed) {
+        res.status(400).json({ message: err.message, received: found.received });
+      }
+    }
+  });
+
+  app.delete("/api/uploads/:id", (req, res) => {
+    discardUpload(req.params.id);
+    res.json({ ok: true });
+  });
+
   app.post("/api/convert", upload.array("files", 100), async (req, res) => {
-    const files = req.files as Express.Multer.File[];
+    // File inviati nel multipart oppure caricati prima a blocchi (uploadIds)
+    const multerFiles = (req.files as Express.Multer.File[] | undefined) ?? [];
+    let uploadIds: unknown = [];
+    let files: { path: string; originalName: string; mimeType: string; size: number }[];
+    try {
+      uploadIds = typeof req.body?.uploadIds === "string" ? JSON.parse(req.body.uploadIds) : [];
+      if (!Array.isArray(uploadIds) || uploadIds.some(id => typeof id !== "string")) {
+        throw new Error("Elenco dei caricamenti non valido");
+      }
+      files = [
+        ...multerFiles.map(f => ({
+          path: f.path,
+          originalName: Buffer.from(f.originalname, 'latin1').toString('utf8'),
+          mimeType: f.mimetype,
+          size: f.size,
+        })),
+        ...takeCompletedUploads(uploadIds).map(u => ({
+          path: u.path,
+          originalName: u.fileName,
+          mimeType: u.mimeType,
+          size: u.size,
+        })),
+      ];
+    } catch (err: any) {
+      // Richiesta rifiutata: i file ricevuti e i caricamenti a blocchi indicati non servono più
+      for (const f of multerFiles) {
+        try { fs.unlinkSync(f.path); } catch {}
+      }
+      if (Array.isArray(uploadIds)) {
+        for (const id of uploadIds) {
+          if (typeof id === "string") discardUpload(id);
+        }
+      }
+      return res.status(400).json({ message: err.message });
+    }
 
-    if (!files || files.length === 0) {
+    if (files.length === 0) {
       return res.status(400).json({ message: "Nessun file caricato" });
     }
+    if (files.length > 100) {
+      for (const f of files) {
+        try { fs.unlinkSync(f.path); } catch {}
+      }
+      return res.status(400).json({ message: "Puoi convertire al massimo 100 file alla volta" });
+    }
 
     const customName = typeof req.body?.customName === "string" && req.body.customName.trim()
       ? req.body.customName.trim().replace(/[<>:"/\\|?*]/g, "_")
@@ -409,8 +643,38 @@ export async function registerRoutes(
 
     const rawEmail = typeof req.body?.notifyEmail === "string" ? req.body.notifyEmail.trim() : "";
     const notifyEmail = rawEmail && isValidEmail(rawEmail) ? rawEmail : null;
+    const oneTimeLink = req.body?.oneTimeLink === "true";
+
+    const rawMaxSizeMB = typeof req.body?.maxSizeMB === "string" ? parseFloat(req.body.maxSizeMB) : null;
+    const sizeLimit: SizeLimit = resolveSizeLimit(req.body?.sizePreset, rawMaxSizeMB);
+    const maxSizeBytes = Math.round(sizeLimit.maxSizeMB * 1024 * 1024);
+    const limitText = formatSizeLimit(sizeLimit);
+
+    const pdfaLevel = resolvePdfALevel(req.body?.pdfaLevel);
+    const parseDpi = (value: unknown) => typeof value === "string" ? parseInt(value, 10) : null;
+    const quality = resolveQuality(req.body?.quality, {
+      colorDpi: parseDpi(req.body?.colorDpi),
+      grayDpi: parseDpi(req.body?.grayDpi),
+      monoDpi: parseDpi(req.body?.monoDpi),
+    });
 
-    const sessionId = Date.now().toString(36) + Math.random().toString(36).substring(2, 8);
+    const settings: ConversionSettings = { pdfaLevel, quality };
+    const ocrEnabled = req.body?.ocr === "true";
+    const splitMode = resolveSplitMode(req.body?.splitMode);
+
+    const pageEdits = parsePageEdits(req.body?.pageEdits, files.length);
+    const uploads: UploadedInput[] = files.map((f, index) => ({
+      path: f.path,
+      originalName: f.originalName,
+      mimeType: f.mimeType,
+      pageEdits: pageEdits[index],
+    }));
+    // Unione: i file vengono concatenati nell'ordine di invio e trattati come un unico documento
+    const mergeInputs = req.body?.merge === "true" && uploads.length > 1;
+    const mergedName = `${customName || `${stripInputExtension(uploads[0].originalName)}_unito`}.pdf`;
+
+    // Identificativo non indovinabile: dà accesso a stato, anteprime e link di download del job
+    const sessionId = crypto.randomBytes(16).toString("hex");
     const sessionDir = path.join(OUTPUT_DIR, sessionId);
     const splitDir = path.join(sessionDir, "split");
     const convertedDir = path.join(sessionDir, "converted");
@@ -418,191 +682,811 @@ export async function registerRoutes(
     ensureDir(sessionDir);
     ensureDir(splitDir);
     ensureDir(convertedDir);
+    const accessKey = createAccessKey(sessionDir);
+
+    const createdAt = new Date().toISOString();
+    const abort = new AbortController();
+    progressStore.set(sessionId, {
+      logs: [],
+      clients: new Set(),
+      done: false,
+      abort,
+      uploadPaths: files.map(f => f.path),
+      job: {
+        id: sessionId,
+        phase: "queued",
+        createdAt,
+        updatedAt: createdAt,
+        queue: null,
+        passwordCheck: null,
+        signatureCheck: null,
+        files: (mergeInputs ? [mergedName] : uploads.map(u => u.originalName)).map(name => ({
+          name,
+          status: "pending",
+          result: null,
+          error: null,
+        })),
+        result: null,
+        error: null,
+      },
+    });
+    updateJob(sessionId, () => {});
 
-    progressStore.set(sessionId, { logs: [], clients: new Set(), done: false });
-
-    res.json({ sessionId });
+    // La chiave resta al solo client che ha avviato il job (vedi download-tokens.ts)
+    res.json({ sessionId, accessKey });
+    await runWithJobSignal(abort.signal, async () => {
+      function sendLog(message: string) {
+        broadcastToSession(sessionId, { type: "log", message });
+      }
 
-    function sendLog(message: string) {
-      broadcastToSession(sessionId, { type: "log", message });
-    }
+      function sendWarning(message: string, fileIndex?: number) {
+        broadcastToSession(sessionId, { type: "warning", message, fileIndex });
+      }
 
-    if (rawEmail && !notifyEmail) {
-      sendLog("Avviso: indirizzo email non valido, la notifica non verrà inviata.");
-    }
+      if (rawEmail && !notifyEmail) {
+        sendWarning("Avviso: indirizzo email non valido, la notifica non verrà inviata.");
+      }
 
-    const results: ConvertedFile[] = [];
+      sendLog(`Limite dimensione per file: ${limitText} (${sizeLimit.label}) · Formato: ${pdfaLevel.label}`);
+      sendLog(`Qualità: ${formatQuality(quality)}`);
+      if (ocrEnabled) {
+        sendLog(`OCR attivo (lingue: ${OCR_LANGUAGES})`);
+      }
+      if (splitMode === "bookmarks") {
+        sendLog("Divisione per segnalibri attiva");
+      }
+      if (mergeInputs) {
+        sendLog(`Unione attiva: ${uploads.length} file in un unico documento "${mergedName}"`);
+      }
 
-    try {
-      for (let fi = 0; fi < files.length; fi++) {
-        const file = files[fi];
-        const originalName = Buffer.from(file.originalname, 'latin1').toString('utf8');
-        const originalBaseName = path.parse(originalName).name;
-        const outputBaseName = (customName && files.length === 1) ? customName : originalBaseName;
-        const stat = fs.statSync(file.path);
+      function failJob(errorMessage: string, fileIndex = -1) {
+        // job.json resta nella cartella della sessione per GET /api/jobs/:id
+        cleanupDir(splitDir);
+        cleanupDir(convertedDir);
+        for (const file of files) {
+          try { fs.unlinkSync(file.path); } catch {}
+        }
+        // Job annullato: l'evento "cancelled" è già stato inviato da DELETE /api/jobs/:id
+        if (abort.signal.aborted) return;
+        broadcastToSession(sessionId, { type: "error", message: errorMessage, fileIndex: fileIndex >= 0 ? fileIndex : undefined });
+        updateJob(sessionId, job => {
+          job.phase = "error";
+          job.error = errorMessage;
+          job.passwordCheck = null;
+          job.signatureCheck = null;
+          if (fileIndex >= 0) {
+            job.files[fileIndex].status = "error";
+            job.files[fileIndex].error = errorMessage;
+          }
+        });
+        const session = progressStore.get(sessionId);
+        if (session) session.done = true;
+        cleanupSession(sessionId);
+      }
 
-        const fileLabel = `[${fi + 1}/${files.length}]`;
-        sendLog(`${fileLabel} Elaborazione: ${originalName} (${(stat.size / 1024 / 1024).toFixed(2)} MB)`);
-        log(`Processing: ${originalName} (${(stat.size / 1024 / 1024).toFixed(2)} MB) → output as "${outputBaseName}"`);
+      // PDF cifrati: per i file protetti da password si attende la password dall'utente.
+      // Le sole restrizioni del proprietario si rimuovono prima della conversione
+      // (subito in modalità unione), così un file firmato incluso invariato resta intatto
+      let lockedFiles: PasswordCheck["files"] = [];
+      const restrictedUploads = new Set<number>();
+      for (let i = 0; i < uploads.length; i++) {
+        if (detectInputKind(uploads[i].originalName, uploads[i].mimeType) !== "pdf") continue;
+        try {
+          const state = await getEncryptionState(uploads[i].path);
+          if (state === "restrictions" && mergeInputs) {
+            await decryptInPlace(uploads[i].path);
+            sendLog(`${uploads[i].originalName}: restrizioni di stampa/modifica rimosse`);
+          } else if (state === "restrictions") {
+            restrictedUploads.add(i);
+          } else if (state === "password") {
+            lockedFiles.push({ fileIndex: i, name: uploads[i].originalName });
+          }
+        } catch (err: any) {
+          log(`Encryption check failed on ${uploads[i].originalName}: ${err.message}`);
+        }
+      }
 
-        const tempConvertedPath = path.join(splitDir, `${originalBaseName}_pdfa_full.pdf`);
+      for (let attempt = 0; lockedFiles.length > 0; attempt++) {
+        if (attempt >= MAX_PASSWORD_ATTEMPTS) {
+          failJob(`Conversione annullata: password non valida dopo ${MAX_PASSWORD_ATTEMPTS} tentativi`);
+          return;
+        }
+        const passwordCheck: PasswordCheck = { files: lockedFiles, retry: attempt > 0 };
+        updateJob(sessionId, job => {
+          job.phase = "awaiting-password";
+          job.passwordCheck = passwordCheck;
+        });
+        broadcastToSession(sessionId, {
+          type: "passwords",
+          message: attempt === 0
+            ? `${lockedFiles.length} file protetti da password: inserisci la password per continuare`
+            : `Password non valida per ${lockedFiles.length} file, riprova`,
+          check: passwordCheck,
+        });
+
+        const answer = await waitForUserInput(sessionId, "passwords");
+        if (!answer || answer === "abort") {
+          failJob(answer
+            ? "Conversione annullata: i file protetti da password non sono stati sbloccati"
+            : `Conversione annullata: nessuna password ricevuta entro ${USER_INPUT_TIMEOUT_MINUTES} minuti`);
+          return;
+        }
 
+        const stillLocked: PasswordCheck["files"] = [];
+        for (const locked of lockedFiles) {
+          try {
+            await decryptInPlace(uploads[locked.fileIndex].path, answer[locked.fileIndex] ?? "");
+            sendLog(`${locked.name}: sbloccato`);
+          } catch (err: any) {
+            log(`Decryption failed on ${locked.name}: ${err.message}`);
+            stillLocked.push(locked);
+          }
+        }
+        lockedFiles = stillLocked;
+      }
+      updateJob(sessionId, job => {
+        job.phase = "queued";
+        job.passwordCheck = null;
+      });
+
+      // Firme digitali: la scelta dell'utente arriva prima di occupare un posto in coda
+      const signaturesByUpload: SignatureInfo[][] = uploads.map(() => []);
+      for (let i = 0; i < uploads.length; i++) {
+        if (detectInputKind(uploads[i].originalName, uploads[i].mimeType) !== "pdf") continue;
         try {
-          sendLog(`${fileLabel} Conversione in formato PDF/A-1b in corso...`);
-          log(`Converting to PDF/A: ${originalName}`);
+          signaturesByUpload[i] = await findSignatures(uploads[i].path);
+        } catch (err: any) {
+          log(`Signature check failed on ${uploads[i].originalName}: ${err.message}`);
+        }
+      }
+      const signedFiles: SignedFileReport[] = uploads
+        .map((upload, i) => ({ fileIndex: i, name: upload.originalName, signatures: signaturesByUpload[i] }))
+        .filter(report => report.signatures.length > 0);
+
+      const signedActions: SignedFileAction[] = uploads.map(() => "convert");
+      if (signedFiles.length > 0) {
+        for (const report of signedFiles) {
+          for (const signature of report.signatures) {
+            sendLog(`Firma digitale in ${report.name}: ${formatSignature(signature)}`);
+          }
+        }
+        const signatureCheck: SignatureCheck = { files: signedFiles, allowPassthrough: !mergeInputs };
+        updateJob(sessionId, job => {
+          job.phase = "awaiting-decision";
+          job.signatureCheck = signatureCheck;
+        });
+        broadcastToSession(sessionId, {
+          type: "signatures",
+          message: `${signedFiles.length} file firmati digitalmente: la conversione in PDF/A rimuove la firma. In attesa di una scelta...`,
+          check: signatureCheck,
+        });
+
+        const decision = await waitForUserInput(sessionId, "signatures");
+        if (!decision || Object.values(decision).includes("abort")) {
+          failJob(decision
+            ? "Conversione annullata: i file firmati non sono stati modificati"
+            : `Conversione annullata: nessuna scelta sui file firmati entro ${USER_INPUT_TIMEOUT_MINUTES} minuti`);
+          return;
+        }
+        for (const report of signedFiles) {
+          signedActions[report.fileIndex] = decision[report.fileIndex];
+        }
+        updateJob(sessionId, job => {
+          job.phase = "queued";
+          job.signatureCheck = null;
+        });
+        for (const report of signedFiles) {
+          sendLog(signedActions[report.fileIndex] === "passthrough"
+            ? `${report.name}: mantenuto invariato, la firma resta valida`
+            : `${report.name}: verrà convertito, la firma digitale non sarà più valida`);
+        }
+      }
+
+      const totalBytes = files.reduce((acc, f) => acc + f.size, 0);
+      let wasQueued = false;
+      let releaseSlot: () => void;
+      try {
+        releaseSlot = await conversionQueue.acquire({
+          id: sessionId,
+          sizeBytes: totalBytes,
+          signal: abort.signal,
+          onWaiting: (status) => {
+            wasQueued = true;
+            updateJob(sessionId, job => { job.queue = status; });
+            const startTime = new Date(status.estimatedStart).toLocaleTimeString("it-IT", { hour: "2-digit", minute: "2-digit" });
+            broadcastToSession(sessionId, {
+              type: "queue",
+              message: `In coda: posizione ${status.position}, avvio stimato alle ${startTime}`,
+              ...status,
+            });
+          },
+        });
+      } catch {
+        // Annullato mentre era in coda
+        failJob("Conversione annullata");
+        return;
+      }
+      if (wasQueued) {
+        sendLog("Uscito dalla coda, avvio elaborazione...");
+      }
+      log(`Job ${sessionId} started (${conversionQueue.pending} waiting)`);
+
+      const results: ConvertedFile[] = [];
+      let currentFileIndex = -1;
+
+      function setPhase(phase: JobPhase) {
+        updateJob(sessionId, job => {
+          job.phase = phase;
+          job.queue = null;
+        });
+        broadcastToSession(sessionId, {
+          type: "phase-changed",
+          phase,
+          fileIndex: currentFileIndex >= 0 ? currentFileIndex : undefined,
+        });
+      }
 
-          // Use parallel conversion for better CPU utilization
-          await convertToPdfAParallel(file.path, tempConvertedPath, (current, total) => {
-            sendLog(`${fileLabel} Conversione parallela: ${current}/${total} chunk completati`);
+      function sendChunkProgress(fileIndex: number, stage: ProgressStage, current: number, total: number, message: string) {
+        broadcastToSession(sessionId, {
+          type: "chunk-progress",
+          fileIndex,
+          stage,
+          current,
+          total,
+          percent: toPercent(current, total),
+          message,
+        });
+      }
+
+      // Pagine completate con stima del tempo residuo, in base al ritmo dall'inizio
+      // della fase; inviato solo quando cambia la percentuale, per non riempire il registro
+      function pageProgressReporter(fileIndex: number, stage: ProgressStage) {
+        const startedAt = Date.now();
+        let lastPercent = -1;
+        return (pagesDone: number, totalPages: number) => {
+          const percent = toPercent(pagesDone, totalPages);
+          if (percent === lastPercent) return;
+          lastPercent = percent;
+          const elapsedSeconds = (Date.now() - startedAt) / 1000;
+          broadcastToSession(sessionId, {
+            type: "page-progress",
+            fileIndex,
+            stage,
+            pagesDone,
+            totalPages,
+            percent,
+            etaSeconds: pagesDone > 0 ? Math.round(elapsedSeconds * (totalPages - pagesDone) / pagesDone) : null,
           });
+        };
+      }
 
-          sendLog(`${fileLabel} Conversione PDF/A-1b completata.`);
-        } catch (err: any) {
-          log(`Error converting ${originalName}: ${err.message}`);
-          throw new Error(`Errore nella conversione di ${originalName}: ${err.message}`);
-        }
+      function sendVerification(fileIndex: number, name: string, verification: Awaited<ReturnType<typeof validatePdfA>>, message: string) {
+        broadcastToSession(sessionId, {
+          type: "verification",
+          fileIndex,
+          name,
+          verified: verification.valid,
+          conformance: verification.conformance,
+          violationCount: verification.violations.length,
+          message,
+        });
+      }
 
-        const convertedSize = fs.statSync(tempConvertedPath).size;
-        sendLog(`${fileLabel} Dimensione convertita: ${(convertedSize / 1024 / 1024).toFixed(2)} MB`);
-        log(`Converted size: ${(convertedSize / 1024 / 1024).toFixed(2)} MB`);
+      function reportCades(label: string, signatures: CadesSignature[]) {
+        for (const signature of signatures) {
+          sendLog(`${label} Firma CAdES: ${formatCadesSignature(signature)}`);
+        }
+        sendWarning(`${label} Attenzione: la copia PDF/A non è firmata, la firma resta valida solo sul file .p7m originale.`, currentFileIndex);
+      }
 
-        if (convertedSize > MAX_SIZE_BYTES) {
-          sendLog(`${fileLabel} File superiore a 9MB, divisione in parti...`);
-          log(`Output > 9MB, splitting original PDF and converting each part separately...`);
+      try {
+        let inputs = uploads;
+        let mergedCades: CadesSignature[] = [];
+        if (mergeInputs) {
+          currentFileIndex = 0;
+          setPhase("converting");
+          updateJob(sessionId, job => { job.files[0].status = "processing"; });
+          const mergedPath = path.join(splitDir, "__merged_input.pdf");
+          sendLog(`Unione di ${uploads.length} file in corso...`);
+          log(`Merging ${uploads.length} inputs into ${mergedName}`);
+          try {
+            const details = await mergeInputsToPdf(uploads, mergedPath, (index, input) => {
+              sendLog(`[${index + 1}/${uploads.length}] Aggiunta: ${input.originalName}`);
+            });
+            details.forEach((detail, index) => {
+              if (detail.cades) reportCades(`[${index + 1}/${uploads.length}]`, detail.cades);
+            });
+            mergedCades = details.flatMap(detail => detail.cades ?? []);
+          } catch (err: any) {
+            log(`Merge error: ${err.message}`);
+            throw new Error(`Errore nell'unione dei file: ${err.message}`);
+          }
+          for (const upload of uploads) {
+            try { fs.unlinkSync(upload.path); } catch {}
+          }
+          sendLog(`Unione completata: ${await getPageCount(mergedPath)} pagine.`);
+          inputs = [{ path: mergedPath, originalName: mergedName, mimeType: "application/pdf", pageEdits: null }];
+        }
 
-          const pageRanges = await findPageRangesForSize(tempConvertedPath, MAX_SIZE_BYTES);
-          fs.unlinkSync(tempConvertedPath);
+        for (let fi = 0; fi < inputs.length; fi++) {
+          if (abort.signal.aborted) throw new Error("Conversione annullata");
+          const file = inputs[fi];
+          currentFileIndex = fi;
+          setPhase("converting");
+          updateJob(sessionId, job => { job.files[fi].status = "processing"; });
+          const originalName = file.originalName;
+          // stripInputExtension gestisce anche le doppie estensioni come .pdf.p7m
+          const originalBaseName = stripInputExtension(originalName);
+          const outputBaseName = (customName && inputs.length === 1) ? customName : originalBaseName;
+          const stat = fs.statSync(file.path);
+
+          const fileLabel = `[${fi + 1}/${inputs.length}]`;
+          broadcastToSession(sessionId, {
+            type: "file-started",
+            fileIndex: fi,
+            fileCount: inputs.length,
+            name: originalName,
+            sizeBytes: stat.size,
+            message: `${fileLabel} Elaborazione: ${originalName} (${(stat.size / 1024 / 1024).toFixed(2)} MB)`,
+          });
+          log(`Processing: ${originalName} (${(stat.size / 1024 / 1024).toFixed(2)} MB) → output as "${outputBaseName}"`);
+
+          const fileSignatures = mergeInputs ? signaturesByUpload.flat() : signaturesByUpload[fi];
+          const signatures = fileSignatures.length > 0 ? fileSignatures : undefined;
+
+          // Pass-through: l'originale viene copiato senza conversione se è firmato (per scelta
+          // dell'utente) oppure se è già PDF/A del livello richiesto ed entro il limite
+          let passthrough: ConvertedFile["passthrough"] | null = null;
+          let verification: Awaited<ReturnType<typeof validatePdfA>> | null = null;
+          if (!mergeInputs && signedActions[fi] === "passthrough") {
+            passthrough = "signed";
+            sendLog(`${fileLabel} File firmato incluso senza conversione.`);
+            if (stat.size > maxSizeBytes) {
+              sendWarning(`${fileLabel} ⚠ ATTENZIONE: il file (${(stat.size / 1024 / 1024).toFixed(2)} MB) supera il limite di ${limitText} e non può essere diviso senza invalidare la firma.`, fi);
+            }
+            setPhase("verifying");
+            verification = await validatePdfA(file.path, pdfaLevel);
+            sendVerification(fi, originalName, verification,
+              `${fileLabel} ${verification.valid ? `Già conforme: ${verification.conformance}` : "Attenzione: l'originale firmato non è conforme PDF/A"}`);
+          } else if (
+            !mergeInputs &&
+            detectInputKind(originalName, file.mimeType) === "pdf" &&
+            !file.pageEdits &&
+            !ocrEnabled &&
+            splitMode === "size" &&
+            stat.size <= maxSizeBytes
+          ) {
+            setPhase("verifying");
+            sendLog(`${fileLabel} Controllo preliminare conformità ${pdfaLevel.label}...`);
+            const precheck = await validatePdfA(file.path, pdfaLevel);
+            if (precheck.valid) {
+              passthrough = "compliant";
+              verification = precheck;
+              sendVerification(fi, originalName, precheck,
+                `${fileLabel} Già conforme: ${precheck.conformance} entro ${limitText}, conversione non necessaria.`);
+              log(`Pass-through: ${originalName} already ${precheck.conformance}`);
+            }
+            setPhase("converting");
+          }
 
-          sendLog(`${fileLabel} Diviso in ${pageRanges.length} parti. Conversione di ogni parte...`);
+          if (passthrough && verification) {
+            const outputFileName = `${outputBaseName}.pdf`;
+            const finalPath = path.join(convertedDir, outputFileName);
+            fs.copyFileSync(file.path, finalPath);
+
+            results.push({
+              originalName,
+              outputName: outputFileName,
+              outputSize: stat.size,
+              pageCount: await getPageCount(finalPath),
+              wasSplit: false,
+              verified: verification.valid,
+              conformance: verification.conformance,
+              violations: verification.violations,
+              signatures,
+              passthrough,
+            });
+            try { fs.unlinkSync(file.path); } catch {}
+            updateJob(sessionId, job => {
+              job.files[fi].status = "done";
+              job.files[fi].result = results[results.length - 1];
+            });
+            continue;
+          }
 
-          const partsDetail: PartVerification[] = [];
-          for (let i = 0; i < pageRanges.length; i++) {
-            const { start, end } = pageRanges[i];
-            const partOrigPath = path.join(splitDir, `${originalBaseName}_orig_part${i + 1}.pdf`);
-            await execQpdf([
-              file.path,
-              "--pages", file.path, `${start}-${end}`, "--",
-              partOrigPath,
-            ]);
+          const tempConvertedPath = path.join(splitDir, `${originalBaseName}_pdfa_full.pdf`);
 
-            const finalName = `${outputBaseName}_parte${i + 1}.pdf`;
-            const finalPath = path.join(convertedDir, finalName);
+          // Sorgente per conversione e divisione: l'originale, il PDF ottenuto da
+          // immagine/documento, la copia con le modifiche alle pagine e/o con il livello di testo OCR
+          let sourcePath = file.path;
+          const intermediatePaths: string[] = [];
 
-            sendLog(`${fileLabel} Conversione parte ${i + 1}/${pageRanges.length} (pagine ${start}-${end})...`);
-            log(`  Converting part ${i + 1} (pages ${start}-${end}) to PDF/A...`);
+          if (restrictedUploads.has(fi)) {
+            const decryptedPath = path.join(splitDir, `${originalBaseName}_decrypted.pdf`);
+            await decryptPdf(sourcePath, decryptedPath);
+            sendLog(`${fileLabel} Restrizioni di stampa/modifica rimosse.`);
+            sourcePath = decryptedPath;
+            intermediatePaths.push(decryptedPath);
+          }
 
-            // Use parallel conversion for parts too
-            await convertToPdfAParallel(partOrigPath, finalPath, (current, total) => {
-              if (total > 1) {
-                sendLog(`${fileLabel} Parte ${i + 1}: ${current}/${total} chunk completati`);
+          let cades = mergedCades.length > 0 ? mergedCades : undefined;
+          const inputKind = detectInputKind(originalName, file.mimeType);
+          if (inputKind && inputKind !== "pdf") {
+            const inputPdfPath = path.join(splitDir, `${originalBaseName}_input.pdf`);
+            const kindLabel = {
+              image: "immagine",
+              tiff: "TIFF multipagina",
+              office: "documento",
+              p7m: "busta firmata (.p7m)",
+            }[inputKind];
+            sendLog(`${fileLabel} Conversione ${kindLabel} in PDF...`);
+            log(`Converting ${inputKind} input to PDF: ${originalName}`);
+            try {
+              const details = await convertInputToPdf(file.path, originalName, inputKind, inputPdfPath);
+              if (details.tiff) {
+                sendLog(`${fileLabel} TIFF: ${details.tiff.pages} pagine, ${details.tiff.bilevel} in bianco/nero (CCITT G4), ${details.tiff.recompressed} ricompresse`);
               }
-            });
+              if (details.cades) {
+                reportCades(fileLabel, details.cades);
+                cades = details.cades;
+              }
+            } catch (err: any) {
+              log(`Input conversion error on ${originalName}: ${err.message}`);
+              throw new Error(`Impossibile convertire ${originalName} in PDF: ${err.message}`);
+            }
+            sourcePath = inputPdfPath;
+            intermediatePaths.push(inputPdfPath);
+          }
+
+          if (file.pageEdits) {
+            const editedPath = path.join(splitDir, `${originalBaseName}_edited.pdf`);
+            sendLog(`${fileLabel} Applicazione modifiche alle pagine (${file.pageEdits.length} pagine mantenute)...`);
+            log(`Applying ${file.pageEdits.length} page edits to ${originalName}`);
+            try {
+              await applyPageEdits(sourcePath, file.pageEdits, editedPath);
+            } catch (err: any) {
+              log(`Page edit error on ${originalName}: ${err.message}`);
+              throw new Error(`Modifiche alle pagine non applicabili a ${originalName}: ${err.message}`);
+            }
+            sourcePath = editedPath;
+            intermediatePaths.push(editedPath);
+          }
+
+          if (ocrEnabled) {
+            const ocrPath = path.join(splitDir, `${originalBaseName}_ocr.pdf`);
+            setPhase("ocr");
+            sendLog(`${fileLabel} Riconoscimento testo (OCR) in corso...`);
+            log(`Running OCR on ${originalName}`);
+            try {
+              await addOcrTextLayer(sourcePath, ocrPath, (done, total) => {
+                sendChunkProgress(fi, "ocr", done, total, `${fileLabel} OCR pagina ${done}/${total}`);
+              });
+            } catch (err: any) {
+              log(`OCR error on ${originalName}: ${err.message}`);
+              throw new Error(`Errore OCR su ${originalName}: ${err.message}`);
+            }
+            sendLog(`${fileLabel} OCR completato.`);
+            setPhase("converting");
+            sourcePath = ocrPath;
+            intermediatePaths.push(ocrPath);
+          }
+
+          try {
+            sendLog(`${fileLabel} Conversione in formato ${pdfaLevel.label} in corso...`);
+            log(`Converting to ${pdfaLevel.label}: ${originalName}`);
+
+            // Use parallel conversion for better CPU utilization
+            await convertToPdfAParallel(sourcePath, tempConvertedPath, settings, pageProgressReporter(fi, "converting"));
 
-            try { fs.unlinkSync(partOrigPath); } catch {}
+            sendLog(`${fileLabel} Conversione ${pdfaLevel.label} completata.`);
+          } catch (err: any) {
+            log(`Error converting ${originalName}: ${err.message}`);
+            throw new Error(`Errore nella conversione di ${originalName}: ${err.message}`);
+          }
+
+          const convertedSize = fs.statSync(tempConvertedPath).size;
+          sendLog(`${fileLabel} Dimensione convertita: ${(convertedSize / 1024 / 1024).toFixed(2)} MB`);
+          log(`Converted size: ${(convertedSize / 1024 / 1024).toFixed(2)} MB`);
 
-            const partSize = fs.statSync(finalPath).size;
-            const verification = await verifyPdfA(finalPath);
-            partsDetail.push({ name: finalName, size: partSize, verified: verification.valid, conformance: verification.conformance });
-            const partMB = (partSize / 1024 / 1024).toFixed(2);
-            if (partSize > MAX_SIZE_BYTES) {
-              sendLog(`${fileLabel} ⚠ ATTENZIONE: Parte ${i + 1} (${partMB} MB) supera il limite di 9MB! Contiene pagine troppo grandi per essere ulteriormente divise.`);
-              log(`  WARNING: Part ${i + 1}: ${finalName} (${partMB} MB) EXCEEDS 9MB LIMIT`);
+          let bookmarkSections: BookmarkSection[] = [];
+          if (splitMode === "bookmarks") {
+            try {
+              bookmarkSections = await findBookmarkSections(sourcePath);
+            } catch (err: any) {
+              log(`Unable to read outline of ${originalName}: ${err.message}`);
+            }
+            if (bookmarkSections.length < 2) {
+              sendWarning(`${fileLabel} Segnalibri insufficienti, divisione solo per dimensione.`, fi);
+              bookmarkSections = [];
+            }
+          }
+
+          if (bookmarkSections.length > 0 || convertedSize > maxSizeBytes) {
+            setPhase("splitting");
+            const pageRanges: (PageRange & { name: string; bookmark?: string })[] = [];
+            const planner = await SplitPlanner.load(tempConvertedPath);
+
+            if (bookmarkSections.length > 0) {
+              sendLog(`${fileLabel} Divisione per segnalibri: ${bookmarkSections.length} sezioni...`);
+              log(`Splitting by ${bookmarkSections.length} top-level bookmarks...`);
+
+              for (let s = 0; s < bookmarkSections.length; s++) {
+                const section = bookmarkSections[s];
+                const sectionName = `${outputBaseName}_${String(s + 1).padStart(2, "0")}_${sanitizeFileName(section.title) || "sezione"}`;
+                const ranges = await planner.findPageRanges(maxSizeBytes, section.start, section.end);
+                if (ranges.length > 1) {
+                  sendLog(`${fileLabel} Sezione "${section.title}" superiore a ${limitText}, divisa in ${ranges.length} parti.`);
+                }
+                ranges.forEach((range, k) => pageRanges.push({
+                  ...range,
+                  name: ranges.length > 1 ? `${sectionName}_parte${k + 1}.pdf` : `${sectionName}.pdf`,
+                  bookmark: section.title,
+                }));
+              }
             } else {
-              sendLog(`${fileLabel} Parte ${i + 1}: ${finalName} (${partMB} MB) - ${verification.valid ? verification.conformance : "Non conforme"}`);
-              log(`  Part ${i + 1}: ${finalName} (${partMB} MB) - ${verification.valid ? verification.conformance : "NON CONFORME"}`);
+              sendLog(`${fileLabel} File superiore a ${limitText}, divisione in parti...`);
+              log(`Output > ${limitText}, splitting original PDF and converting each part separately...`);
+
+              const ranges = await planner.findPageRanges(maxSizeBytes);
+              ranges.forEach((range, k) => pageRanges.push({ ...range, name: `${outputBaseName}_parte${k + 1}.pdf` }));
+            }
+            fs.unlinkSync(tempConvertedPath);
+
+            sendLog(`${fileLabel} Diviso in ${pageRanges.length} parti. Conversione di ogni parte...`);
+
+            // L'avanzamento conta le pagine di tutte le parti
+            const reportSplitPages = pageProgressReporter(fi, "splitting");
+            const splitTotalPages = pageRanges.reduce((acc, range) => acc + range.end - range.start + 1, 0);
+            let splitPagesBefore = 0;
+
+            const partsDetail: PartVerification[] = [];
+            for (let i = 0; i < pageRanges.length; i++) {
+              const { start, end } = pageRanges[i];
+              const partOrigPath = path.join(splitDir, `${originalBaseName}_orig_part${i + 1}.pdf`);
+              await execQpdf([
+                sourcePath,
+                "--pages", sourcePath, `${start}-${end}`, "--",
+                partOrigPath,
+              ]);
+
+              const finalName = pageRanges[i].name;
+              const finalPath = path.join(convertedDir, finalName);
+
+              sendLog(`${fileLabel} Conversione parte ${i + 1}/${pageRanges.length} (pagine ${start}-${end})...`);
+              log(`  Converting part ${i + 1} (pages ${start}-${end}) to ${pdfaLevel.label}...`);
+
+              // Use parallel conversion for parts too
+              await convertToPdfAParallel(partOrigPath, finalPath, settings, (done) => {
+                reportSplitPages(splitPagesBefore + done, splitTotalPages);
+              });
+              splitPagesBefore += end - start + 1;
+
+              try { fs.unlinkSync(partOrigPath); } catch {}
+
+              const partSize = fs.statSync(finalPath).size;
+              const verification = await validatePdfA(finalPath, pdfaLevel);
+              partsDetail.push({
+                name: finalName,
+                size: partSize,
+                verified: verification.valid,
+                conformance: verification.conformance,
+                violations: verification.violations,
+                bookmark: pageRanges[i].bookmark,
+                pageCount: end - start + 1,
+                startPage: start,
+                endPage: end,
+              });
+              const partMB = (partSize / 1024 / 1024).toFixed(2);
+              const withinLimit = partSize <= maxSizeBytes;
+              broadcastToSession(sessionId, {
+                type: "part-finished",
+                fileIndex: fi,
+                part: i + 1,
+                partCount: pageRanges.length,
+                name: finalName,
+                sizeBytes: partSize,
+                withinLimit,
+                verified: verification.valid,
+                conformance: verification.conformance,
+                percent: toPercent(i + 1, pageRanges.length),
+                message: withinLimit
+                  ? `${fileLabel} Parte ${i + 1}: ${finalName} (${partMB} MB) - ${verification.valid ? verification.conformance : "Non conforme"}`
+                  : undefined,
+              });
+              if (!withinLimit) {
+                sendWarning(`${fileLabel} ⚠ ATTENZIONE: Parte ${i + 1} (${partMB} MB) supera il limite di ${limitText}! Contiene pagine troppo grandi per essere ulteriormente divise.`, fi);
+                log(`  WARNING: Part ${i + 1}: ${finalName} (${partMB} MB) EXCEEDS ${limitText} LIMIT`);
+              } else {
+                log(`  Part ${i + 1}: ${finalName} (${partMB} MB) - ${verification.valid ? verification.conformance : "NON CONFORME"}`);
+              }
+              for (const violation of verification.violations) {
+                sendLog(`${fileLabel}   ✗ Parte ${i + 1}: ${violation.message}`);
+              }
+            }
+
+            const allVerified = partsDetail.every(p => p.verified);
+            results.push({
+              originalName,
+              outputName: outputBaseName,
+              outputSize: partsDetail.reduce((acc, f) => acc + f.size, 0),
+              pageCount: partsDetail.reduce((acc, f) => acc + f.pageCount, 0),
+              wasSplit: true,
+              parts: partsDetail.length,
+              verified: allVerified,
+              conformance: allVerified ? partsDetail[0].conformance : null,
+              violations: partsDetail.flatMap(p => p.violations.map(v => ({ ...v, message: `${p.name}: ${v.message}` }))),
+              partsDetail,
+              signatures,
+              cades,
+            });
+          } else {
+            const outputFileName = `${outputBaseName}.pdf`;
+            const finalPath = path.join(convertedDir, outputFileName);
+            fs.renameSync(tempConvertedPath, finalPath);
+
+            setPhase("verifying");
+            sendLog(`${fileLabel} Verifica conformità ${pdfaLevel.label}...`);
+            const verification = await validatePdfA(finalPath, pdfaLevel);
+            sendVerification(fi, outputFileName, verification,
+              `${fileLabel} ${verification.valid ? `Conforme: ${verification.conformance}` : "Attenzione: non conforme"}`);
+            for (const violation of verification.violations) {
+              sendLog(`${fileLabel}   ✗ ${violation.message}`);
             }
+            log(`Verification: ${verification.valid ? verification.conformance : `NON CONFORME (${verification.violations.length} violations)`}`);
+
+            results.push({
+              originalName,
+              outputName: outputFileName,
+              outputSize: convertedSize,
+              pageCount: await getPageCount(finalPath),
+              wasSplit: false,
+              verified: verification.valid,
+              conformance: verification.conformance,
+              violations: verification.violations,
+              signatures,
+              cades,
+            });
           }
 
-          const allVerified = partsDetail.every(p => p.verified);
-          results.push({
-            originalName,
-            outputName: outputBaseName,
-            outputSize: partsDetail.reduce((acc, f) => acc + f.size, 0),
-            wasSplit: true,
-            parts: partsDetail.length,
-            verified: allVerified,
-            conformance: allVerified ? partsDetail[0].conformance : null,
-            partsDetail,
-          });
-        } else {
-          const outputFileName = `${outputBaseName}.pdf`;
-          const finalPath = path.join(convertedDir, outputFileName);
-          fs.renameSync(tempConvertedPath, finalPath);
-
-          sendLog(`${fileLabel} Verifica conformità PDF/A-1b...`);
-          const verification = await verifyPdfA(finalPath);
-          sendLog(`${fileLabel} ${verification.valid ? `Conforme: ${verification.conformance}` : "Attenzione: non conforme"}`);
-          log(`Verification: ${verification.valid ? verification.conformance : "NON CONFORME"}`);
-
-          results.push({
-            originalName,
-            outputName: outputFileName,
-            outputSize: convertedSize,
-            wasSplit: false,
-            verified: verification.valid,
-            conformance: verification.conformance,
+          try { fs.unlinkSync(file.path); } catch {}
+          for (const intermediatePath of intermediatePaths) {
+            try { fs.unlinkSync(intermediatePath); } catch {}
+          }
+
+          updateJob(sessionId, job => {
+            job.files[fi].status = "done";
+            job.files[fi].result = results[results.length - 1];
           });
         }
 
-        try { fs.unlinkSync(file.path); } catch {}
+        const zipBaseName = customName && inputs.length === 1
+          ? customName
+          : inputs.map(input => stripInputExtension(input.originalName)).join("_");
+        fs.writeFileSync(path.join(sessionDir, "original_names.json"), JSON.stringify([zipBaseName]));
+
+        sendLog("Elaborazione completata. File pronti per il download.");
+
+        const expiresAt = new Date(Date.now() + DOWNLOAD_EXPIRY_MS).toISOString();
+        const resultData: ConversionResult = {
+          sessionId,
+          files: results,
+          totalSize: results.reduce((acc, r) => acc + r.outputSize, 0),
+          sizeLimit,
+          pdfaLevel: pdfaLevel.id,
+          quality,
+          ocr: ocrEnabled,
+          expiresAt,
+          emailSent: false,
+        };
+
+        // Niente email con il link a file che l'annullamento sta eliminando
+        if (abort.signal.aborted) throw new Error("Conversione annullata");
+        if (notifyEmail) {
+          try {
+            const protocol = req.headers["x-forwarded-proto"] || req.protocol || "https";
+            const host = req.headers["x-forwarded-host"] || req.headers.host || "localhost:5000";
+            const emailToken = signDownloadToken(sessionId, { expiresAt, oneTime: oneTimeLink });
+            const downloadUrl = `${protocol}://${host}/api/download/${sessionId}?token=${emailToken}`;
+
+            await sendConversionEmail({
+              recipientEmail: notifyEmail,
+              fileCount: results.length,
+              totalSize: resultData.totalSize,
+              fileDetails: results.map(r => ({
+                name: r.outputName,
+                size: r.outputSize,
+                verified: r.verified,
+                conformance: r.conformance,
+                wasSplit: r.wasSplit,
+                parts: r.parts,
+                violations: r.violations,
+              })),
+              downloadUrl,
+              expiresAt,
+              oneTimeLink,
+              sizeLimit,
+              pdfaLevel,
+              quality,
+            });
+            log(`Email notification sent to ${notifyEmail}`);
+            // Annullato durante l'invio: il controllo qui sotto chiude il job come annullato
+            if (!abort.signal.aborted) {
+              resultData.emailSent = true;
+              sendLog(`✉ Notifica email inviata a ${notifyEmail}`);
+            }
+          } catch (emailErr: any) {
+            sendWarning(`Avviso: impossibile inviare notifica email (${emailErr.message})`);
+            log(`Email notification failed: ${emailErr.message}`);
+          }
+        }
+
+        if (abort.signal.aborted) throw new Error("Conversione annullata");
+        broadcastToSession(sessionId, { type: "result", result: resultData });
+        updateJob(sessionId, job => {
+          job.phase = "done";
+          job.result = resultData;
+        });
+        const session = progressStore.get(sessionId);
+        if (session) session.done = true;
+        cleanupSession(sessionId);
+      } catch (err: any) {
+        failJob(err.message || "Errore durante la conversione", currentFileIndex);
+      } finally {
+        releaseSlot();
       }
+    });
+  });
 
-      const zipBaseName = customName && files.length === 1 ? customName : files.map(f => {
-        const name = Buffer.from(f.originalname, 'latin1').toString('utf8');
-        return path.parse(name).name;
-      }).join("_");
-      fs.writeFileSync(path.join(sessionDir, "original_names.json"), JSON.stringify([zipBaseName]));
+  app.post("/api/jobs/:id/signatures", (req, res) => {
+    const session = progressStore.get(req.params.id);
+    const check = session?.job.signatureCheck;
+    const pending = session?.pendingInput;
+    if (pending?.kind !== "signatures" || !check) {
+      return res.status(409).json({ message: "Nessuna scelta sui file firmati in attesa per questo job" });
+    }
 
-      sendLog("Elaborazione completata. File pronti per il download.");
+    // { actions: { "<indice file>": "passthrough" | "convert" | "abort" } }
+    const requested = req.body?.actions ?? {};
+    const actions: Record<number, SignedFileAction> = {};
+    for (const report of check.files) {
+      const action = requested[report.fileIndex];
+      if (!SIGNED_FILE_ACTIONS.some(a => a.id === action)) {
+        return res.status(400).json({ message: `Scelta mancante per ${report.name}` });
+      }
+      if (action === "passthrough" && !check.allowPassthrough) {
+        return res.status(400).json({ message: "In modalità unione i file firmati non possono essere inclusi invariati" });
+      }
+      actions[report.fileIndex] = action;
+    }
 
-      const resultData = {
-        sessionId,
-        files: results,
-        totalSize: results.reduce((acc, r) => acc + r.outputSize, 0),
-      };
+    pending.resolve(actions);
+    res.json({ ok: true });
+  });
 
-      if (notifyEmail) {
-        try {
-          const protocol = req.headers["x-forwarded-proto"] || req.protocol || "https";
-          const host = req.headers["x-forwarded-host"] || req.headers.host || "localhost:5000";
-          const downloadUrl = `${protocol}://${host}/api/download/${sessionId}`;
-
-          await sendConversionEmail({
-            recipientEmail: notifyEmail,
-            fileCount: results.length,
-            totalSize: resultData.totalSize,
-            fileDetails: results.map(r => ({
-              name: r.outputName,
-              size: r.outputSize,
-              verified: r.verified,
-              conformance: r.conformance,
-              wasSplit: r.wasSplit,
-              parts: r.parts,
-            })),
-            downloadUrl,
-          });
-          sendLog(`✉ Notifica email inviata a ${notifyEmail}`);
-          log(`Email notification sent to ${notifyEmail}`);
-        } catch (emailErr: any) {
-          sendLog(`Avviso: impossibile inviare notifica email (${emailErr.message})`);
-          log(`Email notification failed: ${emailErr.message}`);
-        }
-      }
+  app.post("/api/jobs/:id/passwords", (req, res) => {
+    const session = progressStore.get(req.params.id);
+    const check = session?.job.passwordCheck;
+    const pending = session?.pendingInput;
+    if (pending?.kind !== "passwords" || !check) {
+      return res.status(409).json({ message: "Nessuna password in attesa per questo job" });
+    }
 
-      broadcastToSession(sessionId, { type: "result", data: resultData });
-      const session = progressStore.get(sessionId);
-      if (session) session.done = true;
-      cleanupSession(sessionId);
-    } catch (err: any) {
-      cleanupDir(sessionDir);
-      for (const file of files) {
-        try { fs.unlinkSync(file.path); } catch {}
+    // { passwords: { "<indice file>": "..." } } oppure { abort: true }
+    if (req.body?.abort === true) {
+      pending.resolve("abort");
+      return res.json({ ok: true });
+    }
+    const requested = req.body?.passwords ?? {};
+    const passwords: Record<number, string> = {};
+    for (const locked of check.files) {
+      if (typeof requested[locked.fileIndex] !== "string") {
+        return res.status(400).json({ message: `Password mancante per ${locked.name}` });
       }
-      broadcastToSession(sessionId, { type: "error", message: err.message || "Errore durante la conversione" });
-      const session = progressStore.get(sessionId);
-      if (session) session.done = true;
-      cleanupSession(sessionId);
+      passwords[locked.fileIndex] = requested[locked.fileIndex];
     }
+
+    pending.resolve(passwords);
+    res.json({ ok: true });
   });
 
   app.get("/api/progress/:sessionId", (req, res) => {
@@ -640,19 +1524,158 @@ export async function registerRoutes(
     });
   });
 
+  // Annulla il job: i processi gs/qpdf in corso vengono terminati, gli upload e
+  // i file prodotti eliminati; job.json resta con lo stato "cancelled"
+  app.delete("/api/jobs/:id", (req, res) => {
+    const { id } = req.params;
+    const session = progressStore.get(id);
+
+    if (!session) {
+      const job = SESSION_ID_REGEX.test(id) ? readJob(id) : null;
+      return job
+        ? res.status(409).json({ message: "Il job è già terminato" })
+        : res.status(404).json({ message: "Job non trovato o scaduto" });
+    }
+    if (session.done) {
+      return res.status(409).json({ message: "Il job è già terminato" });
+    }
+
+    broadcastToSession(id, { type: "cancelled", message: "Conversione annullata" });
+    updateJob(id, job => {
+      job.phase = "cancelled";
+      job.queue = null;
+      job.passwordCheck = null;
+      job.signatureCheck = null;
+      job.error = "Conversione annullata";
+    });
+    session.abort.abort();
+    session.done = true;
+    session.clients.forEach(client => {
+      try { client.end(); } catch {}
+    });
+    session.clients.clear();
+
+    const sessionDir = path.join(OUTPUT_DIR, id);
+    cleanupDir(path.join(sessionDir, "split"));
+    cleanupDir(path.join(sessionDir, "converted"));
+    cleanupSession(id);
+    log(`Job ${id} cancelled`);
+    res.json({ ok: true });
+  });
+
+  app.get("/api/jobs/:id", (req, res) => {
+    const { id } = req.params;
+    const job = SESSION_ID_REGEX.test(id) ? readJob(id) : null;
+
+    if (!job) {
+      return res.status(404).json({ message: "Job non trovato o scaduto" });
+    }
+
+    res.json(job);
+  });
+
+  // Token riutilizzabile per scaricare dall'interfaccia, solo per il client che ha
+  // avviato il job (header X-Access-Key con la chiave ricevuta da POST /api/convert)
+  app.get("/api/jobs/:id/download-token", (req, res) => {
+    const { id } = req.params;
+    const job = SESSION_ID_REGEX.test(id) ? readJob(id) : null;
+
+    if (!job) {
+      return res.status(404).json({ message: "Job non trovato o scaduto" });
+    }
+    if (!checkAccessKey(req.headers["x-access-key"], path.join(OUTPUT_DIR, id))) {
+      logDownload(req, id, "UI token", "Denied (bad access key)");
+      return res.status(403).json({ message: "Chiave di accesso non valida" });
+    }
+    if (job.phase !== "done" || !job.result) {
+      return res.status(409).json({ message: "La conversione non è ancora terminata" });
+    }
+
+    logDownload(req, id, "UI token", "Issued");
+    res.json({ downloadToken: signDownloadToken(id, { expiresAt: job.result.expiresAt }) });
+  });
+
+  app.get("/api/thumbnail/:sessionId/:fileName", async (req, res) => {
+    const { sessionId, fileName } = req.params;
+    const page = parseInt(typeof req.query.page === "string" ? req.query.page : "1", 10);
+
+    if (!SESSION_ID_REGEX.test(sessionId) || path.basename(fileName) !== fileName || !fileName.endsWith(".pdf")) {
+      return res.status(400).json({ message: "Richiesta non valida" });
+    }
+    if (!Number.isInteger(page) || page < 1) {
+      return res.status(400).json({ message: "Numero di pagina non valido" });
+    }
+
+    const sessionDir = path.join(OUTPUT_DIR, sessionId);
+    const pdfPath = path.join(sessionDir, "converted", fileName);
+    const resource = `${fileName} (thumbnail page ${page})`;
+    if (isExpired(sessionId)) {
+      logDownload(req, sessionId, resource, "Expired");
+      return res.status(410).json({ message: "I file di questa conversione sono scaduti" });
+    }
+    if (!fs.existsSync(pdfPath)) {
+      logDownload(req, sessionId, resource, "Not found");
+      return res.status(404).json({ message: "File non trovato o scaduto" });
+    }
+    // Le anteprime mostrano il contenuto: stesso token dei download, ma mai monouso
+    if (!authorizeDownload(req, res, sessionId, fileName, resource)) return;
+
+    try {
+      const imagePath = await renderPageThumbnail(pdfPath, page, resolveThumbnailSize(req.query.size), path.join(sessionDir, "thumbnails"));
+      res.setHeader("Cache-Control", "private, max-age=3600");
+      res.sendFile(imagePath);
+    } catch (err: any) {
+      log(`Thumbnail error for ${fileName} page ${page}: ${err.message}`);
+      res.status(404).json({ message: err.message || "Anteprima non disponibile" });
+    }
+  });
+
+  // Ogni accesso ai download viene registrato, riuscito o rifiutato
+  // resource: file, "ZIP" (fileName null) o anteprima di una pagina
+  function logDownload(req: Request, sessionId: string, resource: string | null, outcome: string) {
+    log(`${outcome}: ${sessionId}/${resource ?? "ZIP"} from ${req.ip} (${req.headers["user-agent"] ?? "unknown agent"})`, "download");
+  }
+
+  function authorizeDownload(
+    req: Request,
+    res: Response,
+    sessionId: string,
+    fileName: string | null,
+    previewResource?: string
+  ): boolean {
+    const resource = previewResource ?? fileName;
+    const check = checkDownloadToken(req.query.token, sessionId, fileName, path.join(OUTPUT_DIR, sessionId), !previewResource);
+    if (!check.valid) {
+      logDownload(req, sessionId, resource, `Denied (${check.reason})`);
+      res.status(403).json({ message: "Link di download non valido o scaduto" });
+      return false;
+    }
+    logDownload(req, sessionId, resource, check.payload.oneTime ? "Served (one-time link)" : "Served");
+    return true;
+  }
+
+  // Tutti i file della sessione in un unico ZIP; i file restano disponibili fino alla scadenza
   app.get("/api/download/:sessionId", (req, res) => {
     const { sessionId } = req.params;
     const convertedDir = path.join(OUTPUT_DIR, sessionId, "converted");
 
-    if (!fs.existsSync(convertedDir)) {
-      return res.status(404).json({ message: "Sessione non trovata o file già scaricati" });
+    if (!SESSION_ID_REGEX.test(sessionId) || !fs.existsSync(convertedDir)) {
+      logDownload(req, sessionId, null, "Not found");
+      return res.status(404).json({ message: "Sessione non trovata o file scaduti" });
+    }
+    if (isExpired(sessionId)) {
+      logDownload(req, sessionId, null, "Expired");
+      cleanupDir(path.join(OUTPUT_DIR, sessionId));
+      return res.status(410).json({ message: "I file di questa conversione sono scaduti" });
     }
 
     const pdfFiles = fs.readdirSync(convertedDir).filter(f => f.endsWith(".pdf"));
 
     if (pdfFiles.length === 0) {
+      logDownload(req, sessionId, null, "Not found");
       return res.status(404).json({ message: "Nessun file convertito trovato" });
     }
+    if (!authorizeDownload(req, res, sessionId, null)) return;
 
     let zipFileName = "file_convertiti_pdfa.zip";
     const metaPath = path.join(OUTPUT_DIR, sessionId, "original_names.json");
@@ -686,8 +1709,32 @@ export async function registerRoutes(
     archive.finalize();
 
     res.on("finish", () => {
-      log(`Download completed for session ${sessionId}, cleaning up...`);
+      log(`ZIP download completed for session ${sessionId}`);
+    });
+  });
+
+  app.get("/api/download/:sessionId/:fileName", (req, res) => {
+    const { sessionId, fileName } = req.params;
+
+    if (!SESSION_ID_REGEX.test(sessionId) || path.basename(fileName) !== fileName || !fileName.endsWith(".pdf")) {
+      logDownload(req, sessionId, fileName, "Rejected (invalid request)");
+      return res.status(400).json({ message: "Richiesta non valida" });
+    }
+    if (isExpired(sessionId)) {
+      logDownload(req, sessionId, fileName, "Expired");
       cleanupDir(path.join(OUTPUT_DIR, sessionId));
+      return res.status(410).json({ message: "I file di questa conversione sono scaduti" });
+    }
+
+    const filePath = path.join(OUTPUT_DIR, sessionId, "converted", fileName);
+    if (!fs.existsSync(filePath)) {
+      logDownload(req, sessionId, fileName, "Not found");
+      return res.status(404).json({ message: "File non trovato o scaduto" });
+    }
+    if (!authorizeDownload(req, res, sessionId, fileName)) return;
+
+    res.download(filePath, fileName, (err) => {
+      if (err) log(`Download error for ${fileName}: ${err.message}`);
     });
   });
 
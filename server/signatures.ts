@@ -0,0 +1,253 @@
+import path from "path";
+import fs from "fs";
+import { execQpdf } from "./qpdf";
+import { execFileAsync } from "./processes";
+import type { CadesSignature, SignatureInfo } from "@shared/schema";
+
+// Rilevamento delle firme digitali (PAdES/PKCS#7) prima della conversione:
+// la riscrittura con Ghostscript le renderebbe non più verificabili.
+// Firmatario e orario si leggono dal PKCS#7 con OpenSSL; /Name e /M del
+// dizionario di firma servono da riserva.
+// Per i .p7m (CAdES) il PDF si estrae dalla busta, verificandone la firma.
+
+const REF_REGEX = /^(\d+) (\d+) R$/;
+
+function decodePdfString(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  if (value.startsWith("u:")) return value.slice(2);
+  if (value.startsWith("b:")) return Buffer.from(value.slice(2), "hex").toString("latin1");
+  return value;
+}
+
+// D:YYYYMMDDHHmmSS+HH'mm' → ISO 8601
+function parsePdfDate(value: string | null): string | null {
+  const match = value?.match(/^(?:D:)?(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?([Zz+-])?(\d{2})?'?(\d{2})?/);
+  if (!match) return null;
+  const [, y, mo = "01", d = "01", h = "00", mi = "00", s = "00", sign, oh = "00", om = "00"] = match;
+  const offset = !sign || sign.toUpperCase() === "Z" ? "Z" : `${sign}${oh}:${om}`;
+  const date = new Date(`${y}-${mo}-${d}T${h}:${mi}:${s}${offset}`);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+// Il valore di /Contents è riempito di zeri: si tiene solo la struttura DER dichiarata
+function trimDer(buffer: Buffer): Buffer {
+  if (buffer.length < 2 || buffer[0] !== 0x30) return buffer;
+  let length = buffer[1];
+  let offset = 2;
+  if (length & 0x80) {
+    const bytes = length & 0x7f;
+    length = 0;
+    for (let i = 0; i < bytes; i++) length = length * 256 + buffer[2 + i];
+    offset += bytes;
+  }
+  return buffer.subarray(0, Math.min(buffer.length, offset + length));
+}
+
+function commonName(subject: string): string {
+  return subject.match(/(?:^|,\s*)CN\s*=\s*([^,]+)/)?.[1].trim() ?? subject.trim();
+}
+
+function parseOpensslDate(value: string | undefined): string | null {
+  const date = value ? new Date(value.trim()) : null;
+  return date && !isNaN(date.getTime()) ? date.toISOString() : null;
+}
+
+export interface CertificateDetails {
+  subject: string;
+  issuer: string;
+  notBefore: string | null;
+  notAfter: string | null;
+}
+
+export interface Pkcs7Details {
+  signer: string | null;
+  signingTime: string | null;
+  certificate: CertificateDetails | null;
+}
+
+// Firmatario (certificato foglia della catena), validità del certificato e signingTime dagli attributi firmati
+export async function describePkcs7(derPath: string): Promise<Pkcs7Details> {
+  const details: Pkcs7Details = { signer: null, signingTime: null, certificate: null };
+
+  try {
+    const { stdout } = await execFileAsync("openssl", ["pkcs7", "-inform", "DER", "-in", derPath, "-print_certs"]);
+    const certs = stdout.split("-----END CERTIFICATE-----").map(block => ({
+      subject: block.match(/^subject=(.*)$/m)?.[1] ?? "",
+      issuer: block.match(/^issuer=(.*)$/m)?.[1] ?? "",
+      pem: block.includes("-----BEGIN CERTIFICATE-----")
+        ? `${block.slice(block.indexOf("-----BEGIN CERTIFICATE-----"))}-----END CERTIFICATE-----\n`
+        : "",
+    })).filter(c => c.subject);
+    const issuers = new Set(certs.filter(c => c.issuer !== c.subject).map(c => c.issuer));
+    const leaf = certs.find(c => !issuers.has(c.subject)) ?? certs[0];
+    if (leaf) {
+      details.signer = commonName(leaf.subject);
+      details.certificate = { subject: leaf.subject, issuer: commonName(leaf.issuer), notBefore: null, notAfter: null };
+      if (leaf.pem) {
+        const pemPath = `${derPath}.leaf.pem`;
+        fs.writeFileSync(pemPath, leaf.pem);
+        try {
+          const { stdout: dates } = await execFileAsync("openssl", ["x509", "-in", pemPath, "-noout", "-startdate", "-enddate"]);
+          details.certificate.notBefore = parseOpensslDate(dates.match(/notBefore=(.*)/)?.[1]);
+          details.certificate.notAfter = parseOpensslDate(dates.match(/notAfter=(.*)/)?.[1]);
+        } finally {
+          try { fs.unlinkSync(pemPath); } catch {}
+        }
+      }
+    }
+  } catch (err: any) {
+    if (err.code === "ENOENT") throw new Error("OpenSSL non è installato sul server");
+  }
+
+  try {
+    const { stdout } = await execFileAsync("openssl", ["cms", "-inform", "DER", "-in", derPath, "-cmsout", "-print", "-noout"], { maxBuffer: 10 * 1024 * 1024 });
+    details.signingTime = parseOpensslDate(stdout.match(/signingTime[\s\S]*?(?:UTCTIME|GENERALIZEDTIME):([^\n]+)/)?.[1]);
+  } catch {}
+
+  return details;
+}
+
+export async function findSignatures(pdfPath: string): Promise<SignatureInfo[]> {
+  const { stdout } = await execQpdf(
+    ["--json=2", "--json-key=qpdf", pdfPath],
+    { maxBuffer: 500 * 1024 * 1024 },
+  );
+  const objects: Record<string, any> = JSON.parse(stdout).qpdf?.[1] ?? {};
+  const dictOf = (entry: any) => entry?.value ?? entry?.stream?.dict;
+
+  // Campi firma: /FT /Sig, con /V che punta al dizionario della firma (se firmato)
+  const fieldBySig = new Map<string, string | null>();
+  for (const entry of Object.values(objects)) {
+    const dict = dictOf(entry);
+    if (dict?.["/FT"] === "/Sig" && typeof dict["/V"] === "string" && REF_REGEX.test(dict["/V"])) {
+      fieldBySig.set(dict["/V"], decodePdfString(dict["/T"]));
+    }
+  }
+
+  const workDir = pdfPath + "_sig";
+  const signatures: SignatureInfo[] = [];
+  try {
+    for (const [key, entry] of Object.entries(objects)) {
+      const dict = dictOf(entry);
+      if (!dict || !Array.isArray(dict["/ByteRange"]) || typeof dict["/Contents"] !== "string") continue;
+      if (dict["/Type"] && dict["/Type"] !== "/Sig" && dict["/Type"] !== "/DocTimeStamp") continue;
+
+      const ref = key.replace(/^obj:/, "");
+      const info: SignatureInfo = {
+        fieldName: fieldBySig.get(ref) ?? null,
+        signer: decodePdfString(dict["/Name"]),
+        signingTime: parsePdfDate(decodePdfString(dict["/M"])),
+        subFilter: typeof dict["/SubFilter"] === "string" ? dict["/SubFilter"].slice(1) : null,
+      };
+
+      const contents = dict["/Contents"];
+      if (contents.startsWith("b:")) {
+        fs.mkdirSync(workDir, { recursive: true });
+        const derPath = path.join(workDir, `${ref.replace(/\s+/g, "_")}.der`);
+        fs.writeFileSync(derPath, trimDer(Buffer.from(contents.slice(2), "hex")));
+        const details = await describePkcs7(derPath);
+        info.signer = details.signer ?? info.signer;
+        info.signingTime = details.signingTime ?? info.signingTime;
+      }
+      signatures.push(info);
+    }
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+
+  return signatures;
+}
+
+// Buste annidate (firme multiple "a matrioska"): oltre questo livello il file viene rifiutato
+const MAX_CADES_LAYERS = 5;
+
+// Certificati delle CA attendibili (PEM, ad es. l'elenco AgID dei certificatori qualificati).
+// Senza, la catena di certificazione non viene verificata e i risultati lo dichiarano
+const CADES_CA_FILE = process.env.CADES_CA_FILE || null;
+
+// Verifica della catena all'orario di firma; la revoca non è controllata
+async function verifyCadesChain(envelopePath: string, signingTime: string | null, workDir: string): Promise<boolean | null> {
+  if (!CADES_CA_FILE) return null;
+  const args = [
+    "cms", "-verify", "-binary", "-inform", "DER", "-in", envelopePath,
+    "-out", path.join(workDir, "chain_check"),
+    "-CAfile", CADES_CA_FILE, "-purpose", "any",
+  ];
+  if (signingTime) args.push("-attime", String(Math.floor(new Date(signingTime).getTime() / 1000)));
+  try {
+    await execFileAsync("openssl", args, { maxBuffer: 10 * 1024 * 1024 });
+    return true;
+  } catch (err: any) {
+    if (err.name === "AbortError") throw err;
+    return false;
+  }
+}
+
+// I .p7m possono essere DER oppure Base64 (con o senza intestazione PEM)
+function toDer(data: Buffer): Buffer {
+  if (data[0] === 0x30) return data;
+  const base64 = data.toString("latin1").replace(/-----[^-]+-----/g, "").replace(/\s+/g, "");
+  return Buffer.from(base64, "base64");
+}
+
+export async function extractCadesPdf(p7mPath: string, outputPath: string): Promise<CadesSignature[]> {
+  const workDir = outputPath + "_p7m";
+  fs.mkdirSync(workDir, { recursive: true });
+
+  try {
+    const signatures: CadesSignature[] = [];
+    let envelopePath = path.join(workDir, "envelope_0.der");
+    fs.writeFileSync(envelopePath, toDer(fs.readFileSync(p7mPath)));
+
+    for (let layer = 0; layer < MAX_CADES_LAYERS; layer++) {
+      const contentPath = path.join(workDir, `content_${layer}`);
+      const verifyArgs = ["cms", "-verify", "-binary", "-inform", "DER", "-noverify", "-in", envelopePath, "-out", contentPath];
+      let signatureValid = true;
+      try {
+        await execFileAsync("openssl", verifyArgs, { maxBuffer: 10 * 1024 * 1024 });
+      } catch (err: any) {
+        if (err.code === "ENOENT") throw new Error("OpenSSL non è installato sul server");
+        signatureValid = false;
+        try {
+          // Firma non integra: si estrae comunque il contenuto per convertirlo, segnalandolo
+          await execFileAsync("openssl", [...verifyArgs, "-nosigs"], { maxBuffer: 10 * 1024 * 1024 });
+        } catch {
+          throw new Error("Il file non è una busta CAdES (.p7m) valida");
+        }
+      }
+
+      const details = await describePkcs7(envelopePath);
+      const reference = details.signingTime ? new Date(details.signingTime) : new Date();
+      const certificate = details.certificate;
+      signatures.push({
+        signer: details.signer,
+        signingTime: details.signingTime,
+        signatureValid,
+        certificateIssuer: certificate?.issuer ?? null,
+        certificateNotBefore: certificate?.notBefore ?? null,
+        certificateNotAfter: certificate?.notAfter ?? null,
+        certificateInPeriod: !!certificate?.notBefore && !!certificate.notAfter &&
+          new Date(certificate.notBefore) <= reference && reference <= new Date(certificate.notAfter),
+        chainVerified: signatureValid ? await verifyCadesChain(envelopePath, details.signingTime, workDir) : false,
+      });
+
+      const head = Buffer.alloc(5);
+      const fd = fs.openSync(contentPath, "r");
+      fs.readSync(fd, head, 0, 5, 0);
+      fs.closeSync(fd);
+
+      if (head.toString("latin1") === "%PDF-") {
+        fs.renameSync(contentPath, outputPath);
+        return signatures;
+      }
+      if (head[0] !== 0x30) {
+        throw new Error("La busta firmata non contiene un PDF");
+      }
+      envelopePath = contentPath;
+    }
+
+    throw new Error(`Troppi livelli di firma annidati (oltre ${MAX_CADES_LAYERS})`);
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,105 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { SplitPlanner, type PageRange } from "./split-planner";
+
+// Documento finto nel formato del JSON v2 di qpdf: una pagina per dimensione di
+// contenuto, tutte con lo stesso font (oggetto condiviso da 20 KB)
+const SHARED_FONT_SIZE = 20_000;
+
+function fakeDocument(contentSizes: number[]) {
+  const objects: Record<string, any> = {
+    "obj:1 0 R": { value: { "/Type": "/Pages", "/Count": contentSizes.length } },
+    "obj:2 0 R": { stream: { dict: { "/Length": SHARED_FONT_SIZE } } },
+  };
+  const pageRefs = contentSizes.map((size, index) => {
+    const page = `${10 + index * 2} 0 R`;
+    const contents = `${11 + index * 2} 0 R`;
+    objects[`obj:${page}`] = {
+      value: { "/Type": "/Page", "/Parent": "1 0 R", "/Contents": contents, "/Resources": { "/Font": { "/F1": "2 0 R" } } },
+    };
+    objects[`obj:${contents}`] = { stream: { dict: { "/Length": size } } };
+    return page;
+  });
+  return { pageRefs, objects };
+}
+
+// Dimensione "reale" di un'estrazione: font una volta sola più i contenuti, moltiplicati
+// per factor per simulare una stima troppo ottimista (> 1) o troppo prudente (< 1)
+function planner(contentSizes: number[], factor = 1) {
+  const probes: PageRange[] = [];
+  const measure = async (start: number, end: number) => {
+    probes.push({ start, end });
+    const content = contentSizes.slice(start - 1, end).reduce((sum, size) => sum + size, 0);
+    return Math.round((4_000 + SHARED_FONT_SIZE + content) * factor);
+  };
+  const { pageRefs, objects } = fakeDocument(contentSizes);
+  const instance = new SplitPlanner(contentSizes.length, measure);
+  instance.buildEstimates(pageRefs, objects);
+  return { instance, measure, probes };
+}
+
+async function assertValidPlan(ranges: PageRange[], first: number, last: number, maxSize: number, measure: (s: number, e: number) => Promise<number>) {
+  assert.equal(ranges[0].start, first);
+  assert.equal(ranges[ranges.length - 1].end, last);
+  for (let i = 0; i < ranges.length; i++) {
+    assert.ok(ranges[i].start <= ranges[i].end);
+    if (i > 0) assert.equal(ranges[i].start, ranges[i - 1].end + 1, "intervalli contigui");
+    if (ranges[i].start < ranges[i].end) {
+      assert.ok(await measure(ranges[i].start, ranges[i].end) <= maxSize, `parte ${i + 1} entro il limite`);
+    }
+  }
+}
+
+test("il peso degli oggetti condivisi si conta una volta sola", () => {
+  const { instance } = planner([10_000, 10_000, 10_000]);
+  const one = instance.estimate(1, 1);
+  const three = instance.estimate(1, 3);
+  assert.ok(three < one * 3);
+  assert.ok(three - one >= 20_000 && three - one < 21_000);
+});
+
+test("le parti coprono tutte le pagine e restano entro il limite", async () => {
+  const sizes = Array.from({ length: 40 }, (_, i) => 5_000 + (i % 7) * 3_000);
+  const { instance, measure } = planner(sizes);
+  const ranges = await instance.findPageRanges(100_000);
+  assert.ok(ranges.length > 1);
+  await assertValidPlan(ranges, 1, 40, 100_000, measure);
+});
+
+test("una stima troppo ottimista viene corretta dalle estrazioni di verifica", async () => {
+  const sizes = Array.from({ length: 30 }, () => 8_000);
+  const { instance, measure } = planner(sizes, 1.6);
+  const ranges = await instance.findPageRanges(120_000);
+  await assertValidPlan(ranges, 1, 30, 120_000, measure);
+});
+
+test("con una stima troppo prudente gli intervalli vengono allungati", async () => {
+  const sizes = Array.from({ length: 30 }, () => 8_000);
+  const prudent = await planner(sizes, 0.5).instance.findPageRanges(120_000);
+  const exact = await planner(sizes, 1).instance.findPageRanges(120_000);
+  assert.ok(prudent.length < exact.length);
+});
+
+test("una pagina più grande del limite forma una parte a sé", async () => {
+  const { instance } = planner([5_000, 500_000, 5_000]);
+  const ranges = await instance.findPageRanges(100_000);
+  assert.deepEqual(ranges, [
+    { start: 1, end: 1 },
+    { start: 2, end: 2 },
+    { start: 3, end: 3 },
+  ]);
+});
+
+test("si può pianificare solo una sezione del documento", async () => {
+  const sizes = Array.from({ length: 20 }, () => 10_000);
+  const { instance, measure, probes } = planner(sizes);
+  const ranges = await instance.findPageRanges(60_000, 6, 15);
+  await assertValidPlan(ranges, 6, 15, 60_000, measure);
+  assert.ok(probes.every(p => p.start >= 6 && p.end <= 15));
+});
+
+test("un intervallo di una sola pagina non richiede verifiche", async () => {
+  const { instance, probes } = planner([10_000, 10_000]);
+  assert.deepEqual(await instance.findPageRanges(1_000, 2, 2), [{ start: 2, end: 2 }]);
+  assert.equal(probes.length, 0);
+});
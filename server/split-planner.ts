@@ -0,0 +1,218 @@
+import path from "path";
+import fs from "fs";
+import { execQpdf } from "./qpdf";
+import { log } from "./log";
+
+// Pianificazione della divisione per dimensione.
+// Dalla struttura JSON di qpdf si stima il peso di ogni oggetto e quali pagine lo usano;
+// il peso di un intervallo è la somma degli oggetti usati da almeno una sua pagina.
+// I punti di taglio si cercano per bisezione sulla stima e ogni intervallo scelto
+// viene poi verificato con un'estrazione reale: nessuna parte supera il limite,
+// salvo una singola pagina già più grande del limite.
+
+export interface PageRange {
+  start: number;
+  end: number;
+}
+
+const REF_REGEX = /^(\d+) (\d+) R$/;
+// Margine sulla stima per ridurre le estrazioni di verifica fallite
+const ESTIMATE_SAFETY = 0.92;
+// Tentativi di allungare un intervallo quando la stima si rivela troppo prudente
+const MAX_GROW_ATTEMPTS = 3;
+// Struttura minima di un PDF (header, catalogo, xref, trailer)
+const BASE_OVERHEAD = 2048;
+const XREF_ENTRY_SIZE = 20;
+
+interface EstimatedObject {
+  size: number;
+  pages: number[];
+}
+
+function collectRefs(value: any, out: string[]) {
+  if (typeof value === "string") {
+    if (REF_REGEX.test(value)) out.push(value);
+  } else if (Array.isArray(value)) {
+    for (const item of value) collectRefs(item, out);
+  } else if (value && typeof value === "object") {
+    for (const [key, item] of Object.entries(value)) {
+      // /Parent risale all'albero delle pagine: non appartiene alla pagina
+      if (key !== "/Parent") collectRefs(item, out);
+    }
+  }
+}
+
+function usedInRange(pages: number[], start: number, end: number): boolean {
+  let lo = 0;
+  let hi = pages.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (pages[mid] < start) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo < pages.length && pages[lo] <= end;
+}
+
+// Dimensione reale in byte delle pagine start-end estratte in un PDF a sé
+export type RangeMeasure = (start: number, end: number) => Promise<number>;
+
+export class SplitPlanner {
+  private objects: EstimatedObject[] = [];
+  private fallbackPageSize = 0;
+  // Rapporto tra dimensione reale ed estimata, aggiornato dopo ogni verifica
+  private calibration = 1;
+  private probeCounter = 0;
+
+  constructor(readonly totalPages: number, private measureRange: RangeMeasure) {}
+
+  static async load(pdfPath: string): Promise<SplitPlanner> {
+    const { stdout } = await execQpdf(
+      ["--json=2", "--json-key=pages", "--json-key=qpdf", pdfPath],
+      { maxBuffer: 500 * 1024 * 1024 },
+    );
+    const json = JSON.parse(stdout);
+    const pages: string[] = (json.pages ?? []).map((p: any) => p.object);
+    let probe = 0;
+    const planner = new SplitPlanner(pages.length, async (start, end) => {
+      const tmpPath = path.join(path.dirname(pdfPath), `__size_probe_${++probe}.pdf`);
+      await execQpdf([
+        pdfPath,
+        "--pages", pdfPath, `${start}-${end}`, "--",
+        tmpPath,
+      ]);
+      const size = fs.statSync(tmpPath).size;
+      fs.unlinkSync(tmpPath);
+      return size;
+    });
+
+    try {
+      planner.buildEstimates(pages, json.qpdf?.[1] ?? {});
+    } catch (err: any) {
+      log(`Split planner: object analysis failed (${err.message}), using average page size`);
+      planner.objects = [];
+    }
+    if (planner.objects.length === 0) {
+      planner.fallbackPageSize = fs.statSync(pdfPath).size / Math.max(1, pages.length);
+    }
+    return planner;
+  }
+
+  // pageRefs: oggetti pagina in ordine; rawObjects: oggetti del JSON v2 di qpdf ("obj:N G R")
+  buildEstimates(pageRefs: string[], rawObjects: Record<string, any>) {
+    const pageSet = new Set(pageRefs);
+    const objectSize = (ref: string): number => {
+      const entry = rawObjects[`obj:${ref}`];
+      if (!entry) return 0;
+      if (entry.stream) {
+        let length = entry.stream.dict["/Length"];
+        if (typeof length === "string" && REF_REGEX.test(length)) {
+          length = rawObjects[`obj:${length}`]?.value;
+        }
+        const dictSize = JSON.stringify(entry.stream.dict).length;
+        return (typeof length === "number" ? length : 0) + dictSize + 40;
+      }
+      return JSON.stringify(entry.value ?? null).length + 20;
+    };
+
+    const usage = new Map<string, number[]>();
+    pageRefs.forEach((pageRef, index) => {
+      const pageNumber = index + 1;
+      const seen = new Set<string>([pageRef]);
+      const stack = [pageRef];
+      while (stack.length > 0) {
+        const ref = stack.pop()!;
+        const pages = usage.get(ref);
+        if (pages) pages.push(pageNumber);
+        else usage.set(ref, [pageNumber]);
+
+        const entry = rawObjects[`obj:${ref}`];
+        if (!entry) continue;
+        const children: string[] = [];
+        collectRefs(entry.stream ? entry.stream.dict : entry.value, children);
+        for (const child of children) {
+          // Le altre pagine (es. destinazioni dei link) non vengono copiate con questa
+          if (seen.has(child) || (pageSet.has(child) && child !== pageRef)) continue;
+          seen.add(child);
+          stack.push(child);
+        }
+      }
+    });
+
+    this.objects = Array.from(usage.entries()).map(([ref, pages]) => ({ size: objectSize(ref), pages }));
+  }
+
+  estimate(start: number, end: number): number {
+    if (this.objects.length === 0) {
+      return BASE_OVERHEAD + this.fallbackPageSize * (end - start + 1);
+    }
+    let total = BASE_OVERHEAD;
+    for (const obj of this.objects) {
+      if (usedInRange(obj.pages, start, end)) total += obj.size + XREF_ENTRY_SIZE;
+    }
+    return total * this.calibration;
+  }
+
+  // Ultima pagina end in [start, last] con stima entro budget (almeno start)
+  private searchEnd(start: number, last: number, budget: number): number {
+    let lo = start;
+    let hi = last;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (this.estimate(start, mid) <= budget) lo = mid;
+      else hi = mid - 1;
+    }
+    return lo;
+  }
+
+  private async measure(start: number, end: number): Promise<number> {
+    this.probeCounter++;
+    return this.measureRange(start, end);
+  }
+
+  private calibrate(start: number, end: number, realSize: number) {
+    const estimated = this.estimate(start, end) / this.calibration;
+    if (estimated > 0) this.calibration = realSize / estimated;
+  }
+
+  async findPageRanges(maxSize: number, firstPage = 1, lastPage = this.totalPages): Promise<PageRange[]> {
+    const last = Math.min(lastPage, this.totalPages);
+    if (last <= firstPage) {
+      return [{ start: firstPage, end: Math.max(firstPage, last) }];
+    }
+
+    const budget = maxSize * ESTIMATE_SAFETY;
+    const ranges: PageRange[] = [];
+    let start = firstPage;
+
+    while (start <= last) {
+      let end = this.searchEnd(start, last, budget);
+      let size = await this.measure(start, end);
+      this.calibrate(start, end, size);
+
+      // Troppo grande: si restringe con la stima corretta finché la verifica passa
+      while (size > maxSize && end > start) {
+        const corrected = this.searchEnd(start, end - 1, budget);
+        end = Math.min(corrected, end - 1);
+        size = await this.measure(start, end);
+        this.calibrate(start, end, size);
+      }
+
+      // Stima troppo prudente: si prova ad allungare finché la verifica passa
+      for (let attempt = 0; attempt < MAX_GROW_ATTEMPTS && end < last && size <= maxSize; attempt++) {
+        const candidate = this.searchEnd(start, last, budget);
+        if (candidate <= end) break;
+        const candidateSize = await this.measure(start, candidate);
+        this.calibrate(start, candidate, candidateSize);
+        if (candidateSize > maxSize) break;
+        end = candidate;
+        size = candidateSize;
+      }
+
+      ranges.push({ start, end });
+      start = end + 1;
+    }
+
+    log(`Split planner: ${ranges.length} ranges for pages ${firstPage}-${last}, ${this.probeCounter} verification extractions`);
+    return ranges;
+  }
+}
@@ -0,0 +1,55 @@
+import path from "path";
+import fs from "fs";
+import crypto from "crypto";
+import { gsWorkers } from "./queue";
+import { execFileAsync } from "./processes";
+
+// Anteprime delle pagine dei file convertiti, generate con il device PNG di Ghostscript
+// e conservate nella cartella thumbnails della sessione (fuori dallo ZIP).
+// "small" per le miniature dei risultati, "large" per il visualizzatore.
+
+export type ThumbnailSize = "small" | "large";
+
+const THUMBNAIL_DPI: Record<ThumbnailSize, number> = {
+  small: 24,
+  large: 96,
+};
+
+export function resolveThumbnailSize(size?: unknown): ThumbnailSize {
+  return size === "large" ? "large" : "small";
+}
+
+export async function renderPageThumbnail(
+  pdfPath: string,
+  page: number,
+  size: ThumbnailSize,
+  cacheDir: string
+): Promise<string> {
+  fs.mkdirSync(cacheDir, { recursive: true });
+  const imagePath = path.join(cacheDir, `${path.parse(pdfPath).name}_p${page}_${size}.png`);
+  if (fs.existsSync(imagePath)) return imagePath;
+
+  // Scrittura su file temporaneo con nome univoco: richieste concorrenti per la stessa
+  // pagina non leggono PNG incompleti e non scrivono sullo stesso file
+  const tmpPath = `${imagePath}.${crypto.randomUUID()}.tmp`;
+  await gsWorkers.run(() => execFileAsync("gs", [
+    "-dSAFER",
+    "-dBATCH",
+    "-dNOPAUSE",
+    "-dQUIET",
+    "-sDEVICE=png16m",
+    `-r${THUMBNAIL_DPI[size]}`,
+    "-dTextAlphaBits=4",
+    "-dGraphicsAlphaBits=4",
+    `-dFirstPage=${page}`,
+    `-dLastPage=${page}`,
+    `-sOutputFile=${tmpPath}`,
+    pdfPath,
+  ], { maxBuffer: 10 * 1024 * 1024 }));
+
+  if (!fs.existsSync(tmpPath)) {
+    throw new Error(`Pagina ${page} non disponibile`);
+  }
+  fs.renameSync(tmpPath, imagePath);
+  return imagePath;
+}
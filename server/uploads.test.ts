@@ -0,0 +1,81 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Readable } from "stream";
+import { appendChunk, createUpload, discardUpload, getUpload, takeCompletedUploads, CHUNK_SIZE } from "./uploads";
+
+let dir: string;
+
+before(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "uploads-test-"));
+});
+
+after(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function bytes(length: number, fill = 0x25): Buffer {
+  return Buffer.alloc(length, fill);
+}
+
+test("creazione: nome, formato e dimensione vengono controllati", () => {
+  assert.throws(() => createUpload(dir, "", "application/pdf", 10), /Nome del file mancante/);
+  assert.throws(() => createUpload(dir, "foglio.xlsx", "application/octet-stream", 10), /Formato non supportato/);
+  assert.throws(() => createUpload(dir, "documento.pdf", "application/pdf", 0), /Dimensione non valida/);
+  assert.throws(() => createUpload(dir, "documento.pdf", "application/pdf", 1.5), /Dimensione non valida/);
+  assert.throws(() => createUpload(dir, "documento.pdf", "application/pdf", 200 * 1024 * 1024), /dimensione massima/);
+
+  const upload = createUpload(dir, "documento.pdf", "application/pdf", 10);
+  assert.equal(upload.received, 0);
+  assert.equal(fs.statSync(upload.path).size, 0);
+  discardUpload(upload.id);
+});
+
+test("i blocchi si accodano e i byte ricevuti seguono il file parziale", async () => {
+  const upload = createUpload(dir, "scansione.pdf", "application/pdf", 10);
+  assert.equal(await appendChunk(upload, Readable.from([bytes(4)])), 4);
+  assert.equal(await appendChunk(upload, Readable.from([bytes(3), bytes(3)])), 10);
+  assert.equal(fs.statSync(upload.path).size, 10);
+
+  const [taken] = takeCompletedUploads([upload.id]);
+  assert.equal(taken.id, upload.id);
+  assert.equal(getUpload(upload.id), null, "fuori dal registro dopo il ritiro");
+  fs.unlinkSync(taken.path);
+});
+
+// Dopo un blocco rifiutato i byte ricevuti sono quelli arrivati su disco: il client riprende da lì
+test("un blocco oltre i byte mancanti viene rifiutato senza perdere i byte precedenti", async () => {
+  const upload = createUpload(dir, "scansione.pdf", "application/pdf", 10);
+  await appendChunk(upload, Readable.from([bytes(6)]));
+  await assert.rejects(appendChunk(upload, Readable.from([bytes(2), bytes(3)])), /Blocco troppo grande \(massimo 4 byte\)/);
+  assert.equal(upload.received, fs.statSync(upload.path).size);
+  assert.ok(upload.received >= 6 && upload.received <= 10);
+  assert.equal(upload.writing, false);
+  discardUpload(upload.id);
+});
+
+test("un blocco non può superare CHUNK_SIZE anche se mancano più byte", async () => {
+  const upload = createUpload(dir, "grande.pdf", "application/pdf", CHUNK_SIZE * 2);
+  await assert.rejects(appendChunk(upload, Readable.from([bytes(CHUNK_SIZE), bytes(1)])), /Blocco troppo grande/);
+  assert.equal(upload.received, fs.statSync(upload.path).size);
+  assert.ok(upload.received <= CHUNK_SIZE);
+  discardUpload(upload.id);
+});
+
+test("ritiro: caricamenti sconosciuti o incompleti bloccano tutto l'elenco", async () => {
+  const complete = createUpload(dir, "a.pdf", "application/pdf", 2);
+  await appendChunk(complete, Readable.from([bytes(2)]));
+  const partial = createUpload(dir, "b.pdf", "application/pdf", 5);
+  await appendChunk(partial, Readable.from([bytes(1)]));
+
+  assert.throws(() => takeCompletedUploads([complete.id, partial.id]), /b\.pdf non ancora completato/);
+  assert.throws(() => takeCompletedUploads([complete.id, "sconosciuto"]), /non trovato o scaduto/);
+  assert.ok(getUpload(complete.id), "nessun caricamento ritirato se l'elenco non è valido");
+
+  discardUpload(complete.id);
+  discardUpload(partial.id);
+  assert.equal(fs.existsSync(complete.path), false);
+  assert.equal(getUpload(partial.id), null);
+});
@@ -0,0 +1,125 @@
+import path from "path";
+import fs from "fs";
+import crypto from "crypto";
+import { Transform, type Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { detectInputKind, ACCEPTED_FORMATS_LABEL } from "@shared/schema";
+
+// Upload ripristinabili a blocchi: il client crea l'upload, poi invia i blocchi
+// in ordine indicando l'offset (come tus). Dopo un'interruzione chiede quanti
+// byte sono già arrivati e riprende da lì; i byte di un blocco interrotto
+// scritti su disco restano validi.
+// Il file parziale sta nella cartella degli upload: la pulizia periodica
+// lo rimuove dopo un'ora senza nuovi blocchi.
+
+export const CHUNK_SIZE = 5 * 1024 * 1024;
+export const MAX_UPLOAD_BYTES = 100 * 1024 * 1024;
+
+export interface ResumableUpload {
+  id: string;
+  path: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  received: number;
+  writing: boolean;
+}
+
+const uploads = new Map<string, ResumableUpload>();
+
+export function createUpload(
+  dir: string,
+  fileName: unknown,
+  mimeType: unknown,
+  size: unknown
+): ResumableUpload {
+  if (typeof fileName !== "string" || !fileName.trim()) {
+    throw new Error("Nome del file mancante");
+  }
+  const type = typeof mimeType === "string" ? mimeType : "application/octet-stream";
+  if (!detectInputKind(fileName, type)) {
+    throw new Error(`Formato non supportato: ${fileName}. Sono accettati ${ACCEPTED_FORMATS_LABEL}.`);
+  }
+  if (typeof size !== "number" || !Number.isInteger(size) || size <= 0) {
+    throw new Error(`Dimensione non valida per ${fileName}`);
+  }
+  if (size > MAX_UPLOAD_BYTES) {
+    throw new Error(`${fileName} supera la dimensione massima di ${MAX_UPLOAD_BYTES / 1024 / 1024} MB`);
+  }
+
+  fs.mkdirSync(dir, { recursive: true });
+  const id = crypto.randomBytes(12).toString("hex");
+  const upload: ResumableUpload = {
+    id,
+    path: path.join(dir, `${id}.part`),
+    fileName,
+    mimeType: type,
+    size,
+    received: 0,
+    writing: false,
+  };
+  fs.writeFileSync(upload.path, "");
+  uploads.set(id, upload);
+  return upload;
+}
+
+// Upload sconosciuto o file parziale già rimosso dalla pulizia
+export function getUpload(id: string): ResumableUpload | null {
+  const upload = uploads.get(id);
+  if (!upload) return null;
+  if (!fs.existsSync(upload.path)) {
+    uploads.delete(id);
+    return null;
+  }
+  return upload;
+}
+
+// Accoda un blocco al file parziale e restituisce i byte ricevuti in totale.
+// L'offset deve coincidere con i byte già ricevuti (verificato dal chiamante).
+export async function appendChunk(upload: ResumableUpload, body: Readable): Promise<number> {
+  const remaining = upload.size - upload.received;
+  const limit = Math.min(CHUNK_SIZE, remaining);
+  let length = 0;
+  const guard = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      length += chunk.length;
+      if (length > limit) {
+        callback(new Error(`Blocco troppo grande (massimo ${limit} byte)`));
+      } else {
+        callback(null, chunk);
+      }
+    },
+  });
+
+  upload.writing = true;
+  try {
+    await pipeline(body, guard, fs.createWriteStream(upload.path, { flags: "a" }));
+  } finally {
+    upload.writing = false;
+    // Anche se il blocco si interrompe a metà, i byte scritti restano: si riparte da lì.
+    // Il controllo sulla lunghezza ferma il flusso prima di superare il limite
+    upload.received = fs.statSync(upload.path).size;
+  }
+  return upload.received;
+}
+
+// Upload completati da convertire: escono dal registro e il file passa alla conversione
+export function takeCompletedUploads(ids: string[]): ResumableUpload[] {
+  const completed = ids.map(id => {
+    const upload = getUpload(id);
+    if (!upload) throw new Error("Caricamento non trovato o scaduto, ricarica i file");
+    if (upload.writing || upload.received < upload.size) {
+      throw new Error(`Caricamento di ${upload.fileName} non ancora completato`);
+    }
+    return upload;
+  });
+  for (const upload of completed) uploads.delete(upload.id);
+  return completed;
+}
+
+export function discardUpload(id: string) {
+  const upload = uploads.get(id);
+  if (!upload) return;
+  uploads.delete(id);
+  try { fs.unlinkSync(upload.path); } catch {}
+}
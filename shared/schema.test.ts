@@ -0,0 +1,43 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parsePageEdits } from "./schema";
+
+test("modifiche allineate all'elenco dei file, null dove non ce ne sono", () => {
+  const raw = JSON.stringify([
+    [{ page: 3, rotation: 0 }, { page: 1, rotation: 90 }],
+    null,
+    [],
+  ]);
+  assert.deepEqual(parsePageEdits(raw, 4), [
+    [{ page: 3, rotation: 0 }, { page: 1, rotation: 90 }],
+    null,
+    null,
+    null,
+  ]);
+});
+
+test("campi in più vengono scartati, voci in più ignorate", () => {
+  const raw = JSON.stringify([[{ page: 2, rotation: 270, thumbnail: "data:..." }], [{ page: 1, rotation: 0 }]]);
+  assert.deepEqual(parsePageEdits(raw, 1), [[{ page: 2, rotation: 270 }]]);
+});
+
+test("un file con una sola voce non valida resta senza modifiche", () => {
+  for (const edit of [
+    { page: 0, rotation: 0 },
+    { page: 1.5, rotation: 0 },
+    { page: "2", rotation: 0 },
+    { page: 2, rotation: 45 },
+    { page: 2 },
+    null,
+  ]) {
+    const raw = JSON.stringify([[{ page: 1, rotation: 0 }, edit], [{ page: 1, rotation: 180 }]]);
+    assert.deepEqual(parsePageEdits(raw, 2), [null, [{ page: 1, rotation: 180 }]], JSON.stringify(edit));
+  }
+});
+
+test("input assente o non valido: nessuna modifica per nessun file", () => {
+  for (const raw of [undefined, "", "non json", "{\"0\": []}", 42]) {
+    assert.deepEqual(parsePageEdits(raw, 2), [null, null]);
+  }
+  assert.deepEqual(parsePageEdits("[]", 0), []);
+});
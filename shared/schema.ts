@@ -0,0 +1,586 @@
+// Tipi e costanti condivisi tra client e server
+
+import { z } from "zod";
+
+export type SizePresetId = "sigit" | "pct" | "pat" | "penale" | "custom";
+
+export interface SizePreset {
+  id: SizePresetId;
+  label: string;
+  shortLabel: string;
+  maxSizeMB: number;
+}
+
+// Limiti di dimensione per singolo file accettati dai portali di deposito.
+// "custom" usa il valore indicato dall'utente (maxSizeMB).
+export const SIZE_PRESETS: SizePreset[] = [
+  { id: "sigit", label: "SIGIT (Tribunale Telematico)", shortLabel: "SIGIT", maxSizeMB: 9 },
+  { id: "pct", label: "PCT (Processo Civile Telematico)", shortLabel: "PCT", maxSizeMB: 30 },
+  { id: "pat", label: "PAT (Giustizia Amministrativa)", shortLabel: "PAT", maxSizeMB: 30 },
+  { id: "penale", label: "Portale Deposito Atti Penali", shortLabel: "PDP", maxSizeMB: 60 },
+  { id: "custom", label: "Limite personalizzato", shortLabel: "personalizzato", maxSizeMB: 9 },
+];
+
+export const DEFAULT_SIZE_PRESET: SizePresetId = "sigit";
+export const MIN_CUSTOM_SIZE_MB = 1;
+export const MAX_CUSTOM_SIZE_MB = 100;
+
+export interface SizeLimit {
+  presetId: SizePresetId;
+  label: string;
+  maxSizeMB: number;
+}
+
+export function resolveSizeLimit(presetId?: string | null, customSizeMB?: number | null): SizeLimit {
+  const preset = SIZE_PRESETS.find(p => p.id === presetId)
+    ?? SIZE_PRESETS.find(p => p.id === DEFAULT_SIZE_PRESET)!;
+
+  if (preset.id === "custom") {
+    const value = typeof customSizeMB === "number" && Number.isFinite(customSizeMB)
+      ? Math.min(MAX_CUSTOM_SIZE_MB, Math.max(MIN_CUSTOM_SIZE_MB, customSizeMB))
+      : preset.maxSizeMB;
+    return { presetId: preset.id, label: preset.shortLabel, maxSizeMB: Math.round(value * 10) / 10 };
+  }
+
+  return { presetId: preset.id, label: preset.shortLabel, maxSizeMB: preset.maxSizeMB };
+}
+
+export function formatSizeLimit(limit: SizeLimit): string {
+  return `${limit.maxSizeMB}MB`;
+}
+
+export type PdfALevelId = "1b" | "2b" | "3b";
+
+export interface PdfALevel {
+  id: PdfALevelId;
+  part: 1 | 2 | 3;
+  label: string;
+  standard: string;
+  description: string;
+}
+
+export const PDFA_LEVELS: PdfALevel[] = [
+  { id: "1b", part: 1, label: "PDF/A-1b", standard: "ISO 19005-1", description: "Massima compatibilità, richiesto da SIGIT" },
+  { id: "2b", part: 2, label: "PDF/A-2b", standard: "ISO 19005-2", description: "Ammette JPEG2000 e trasparenze, file più piccoli" },
+  { id: "3b", part: 3, label: "PDF/A-3b", standard: "ISO 19005-3", description: "Come PDF/A-2b, ammette allegati incorporati" },
+];
+
+export const DEFAULT_PDFA_LEVEL: PdfALevelId = "1b";
+
+export function resolvePdfALevel(levelId?: string | null): PdfALevel {
+  return PDFA_LEVELS.find(l => l.id === levelId)
+    ?? PDFA_LEVELS.find(l => l.id === DEFAULT_PDFA_LEVEL)!;
+}
+
+export type PdfARuleId =
+  | "structure"
+  | "encryption"
+  | "xmp-metadata"
+  | "info-consistency"
+  | "output-intent"
+  | "font-embedding"
+  | "actions"
+  | "transparency"
+  | "lzw";
+
+export interface PdfAViolation {
+  rule: PdfARuleId;
+  message: string;
+  object?: string;
+}
+
+export type QualityProfileId = "screen" | "ebook" | "printer" | "custom";
+
+export interface QualityProfile {
+  id: QualityProfileId;
+  label: string;
+  description: string;
+  pdfSettings: "/screen" | "/ebook" | "/printer";
+  colorDpi: number;
+  grayDpi: number;
+  monoDpi: number;
+}
+
+// Risoluzioni predefinite di Ghostscript per ciascun PDFSETTINGS.
+// "custom" parte da /ebook e sovrascrive le risoluzioni delle immagini.
+export const QUALITY_PROFILES: QualityProfile[] = [
+  { id: "screen", label: "Bassa (screen)", description: "Scansioni voluminose, file più leggeri", pdfSettings: "/screen", colorDpi: 72, grayDpi: 72, monoDpi: 300 },
+  { id: "ebook", label: "Media (ebook)", description: "Equilibrio tra qualità e dimensione", pdfSettings: "/ebook", colorDpi: 150, grayDpi: 150, monoDpi: 300 },
+  { id: "printer", label: "Alta (printer)", description: "Referti medici e fotografie", pdfSettings: "/printer", colorDpi: 300, grayDpi: 300, monoDpi: 1200 },
+  { id: "custom", label: "Personalizzata", description: "Risoluzione scelta per immagini a colori, in scala di grigi e in bianco e nero", pdfSettings: "/ebook", colorDpi: 150, grayDpi: 150, monoDpi: 300 },
+];
+
+export const DEFAULT_QUALITY_PROFILE: QualityProfileId = "ebook";
+export const MIN_DPI = 50;
+export const MAX_DPI = 2400;
+
+export interface QualitySettings {
+  profileId: QualityProfileId;
+  label: string;
+  pdfSettings: QualityProfile["pdfSettings"];
+  colorDpi: number;
+  grayDpi: number;
+  monoDpi: number;
+}
+
+function clampDpi(value: number | null | undefined, fallback: number): number {
+  if (typeof value !== "number" || !Number.isFinite(value)) return fallback;
+  return Math.round(Math.min(MAX_DPI, Math.max(MIN_DPI, value)));
+}
+
+export function resolveQuality(
+  profileId?: string | null,
+  custom?: { colorDpi?: number | null; grayDpi?: number | null; monoDpi?: number | null },
+): QualitySettings {
+  const profile = QUALITY_PROFILES.find(p => p.id === profileId)
+    ?? QUALITY_PROFILES.find(p => p.id === DEFAULT_QUALITY_PROFILE)!;
+  const settings: QualitySettings = {
+    profileId: profile.id,
+    label: profile.label,
+    pdfSettings: profile.pdfSettings,
+    colorDpi: profile.colorDpi,
+    grayDpi: profile.grayDpi,
+    monoDpi: profile.monoDpi,
+  };
+
+  if (profile.id === "custom") {
+    settings.colorDpi = clampDpi(custom?.colorDpi, profile.colorDpi);
+    settings.grayDpi = clampDpi(custom?.grayDpi, profile.grayDpi);
+    settings.monoDpi = clampDpi(custom?.monoDpi, profile.monoDpi);
+  }
+
+  return settings;
+}
+
+export function formatQuality(quality: QualitySettings): string {
+  return `${quality.label} · colore ${quality.colorDpi} / grigi ${quality.grayDpi} / b/n ${quality.monoDpi} dpi`;
+}
+
+export type SplitMode = "size" | "bookmarks";
+
+export const SPLIT_MODES: { id: SplitMode; label: string; description: string }[] = [
+  { id: "size", label: "Per dimensione", description: "Le parti vengono tagliate solo in base al limite di dimensione" },
+  { id: "bookmarks", label: "Per segnalibri", description: "Una parte per ogni segnalibro principale, divisa ulteriormente se supera il limite" },
+];
+
+export const DEFAULT_SPLIT_MODE: SplitMode = "size";
+
+export function resolveSplitMode(mode?: string | null): SplitMode {
+  return SPLIT_MODES.some(m => m.id === mode) ? mode as SplitMode : DEFAULT_SPLIT_MODE;
+}
+
+export type InputKind = "pdf" | "image" | "tiff" | "office" | "p7m";
+
+// Formati accettati in upload: le immagini e i documenti d'ufficio
+// vengono convertiti in PDF prima della conversione PDF/A; dai .p7m si estrae il PDF firmato
+export const ACCEPTED_INPUTS: { kind: InputKind; mimeType: string; extensions: string[] }[] = [
+  { kind: "pdf", mimeType: "application/pdf", extensions: [".pdf"] },
+  { kind: "image", mimeType: "image/jpeg", extensions: [".jpg", ".jpeg"] },
+  { kind: "image", mimeType: "image/png", extensions: [".png"] },
+  { kind: "tiff", mimeType: "image/tiff", extensions: [".tif", ".tiff"] },
+  { kind: "office", mimeType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document", extensions: [".docx"] },
+  { kind: "office", mimeType: "application/msword", extensions: [".doc"] },
+  { kind: "office", mimeType: "application/vnd.oasis.opendocument.text", extensions: [".odt"] },
+  { kind: "office", mimeType: "application/rtf", extensions: [".rtf"] },
+  { kind: "p7m", mimeType: "application/pkcs7-mime", extensions: [".pdf.p7m", ".p7m"] },
+];
+
+export const ACCEPTED_FORMATS_LABEL = "PDF, PDF firmati CAdES (P7M), immagini (JPEG, PNG, TIFF) e documenti (DOCX, DOC, ODT, RTF)";
+
+export function detectInputKind(fileName: string, mimeType?: string): InputKind | null {
+  const lower = fileName.toLowerCase();
+  const byExtension = ACCEPTED_INPUTS.find(i => i.extensions.some(ext => lower.endsWith(ext)));
+  if (byExtension) return byExtension.kind;
+  return ACCEPTED_INPUTS.find(i => i.mimeType === mimeType)?.kind ?? null;
+}
+
+export function stripInputExtension(fileName: string): string {
+  const lower = fileName.toLowerCase();
+  const ext = ACCEPTED_INPUTS.flatMap(i => i.extensions).find(e => lower.endsWith(e));
+  return ext ? fileName.slice(0, -ext.length) : fileName;
+}
+
+export type PageRotation = 0 | 90 | 180 | 270;
+
+// Una voce per ogni pagina mantenuta, nell'ordine finale: numero di pagina
+// originale (da 1) e rotazione da aggiungere in senso orario
+export interface PageEdit {
+  page: number;
+  rotation: PageRotation;
+}
+
+// Le modifiche arrivano come JSON allineato all'elenco dei file (null = nessuna modifica)
+export function parsePageEdits(raw: unknown, fileCount: number): (PageEdit[] | null)[] {
+  const none = Array.from({ length: fileCount }, () => null);
+  if (typeof raw !== "string" || !raw) return none;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return none;
+  }
+  if (!Array.isArray(parsed)) return none;
+
+  return none.map((_, index) => {
+    const edits = parsed[index];
+    if (!Array.isArray(edits) || edits.length === 0) return null;
+    const valid = edits.every(e =>
+      e && Number.isInteger(e.page) && e.page >= 1 && [0, 90, 180, 270].includes(e.rotation),
+    );
+    return valid ? edits.map(e => ({ page: e.page, rotation: e.rotation as PageRotation })) : null;
+  });
+}
+
+// Firme digitali trovate in un PDF caricato (campi /FT /Sig e dizionari con /ByteRange)
+export interface SignatureInfo {
+  fieldName: string | null;
+  signer: string | null;
+  signingTime: string | null;
+  subFilter: string | null;
+}
+
+// Scelta dell'utente per un file firmato: la conversione PDF/A invalida la firma
+export type SignedFileAction = "passthrough" | "convert" | "abort";
+
+export const SIGNED_FILE_ACTIONS: { id: SignedFileAction; label: string; description: string }[] = [
+  { id: "passthrough", label: "Mantieni invariato", description: "Il file originale viene incluso senza conversione: la firma resta valida" },
+  { id: "convert", label: "Converti comunque", description: "Il file viene convertito in PDF/A: la firma digitale viene rimossa" },
+  { id: "abort", label: "Annulla", description: "La conversione viene annullata" },
+];
+
+// Firma di una busta CAdES (.p7m); più voci per buste annidate, dalla più esterna
+export interface CadesSignature {
+  signer: string | null;
+  signingTime: string | null;
+  // Integrità della firma sul contenuto
+  signatureValid: boolean;
+  certificateIssuer: string | null;
+  certificateNotBefore: string | null;
+  certificateNotAfter: string | null;
+  // Orario di firma (o oggi, se manca) entro notBefore/notAfter: da solo non dice
+  // nulla sull'attendibilità dell'emittente né sulla revoca
+  certificateInPeriod: boolean;
+  // Catena verificata con i certificati di CADES_CA_FILE; null se non configurato
+  chainVerified: boolean | null;
+}
+
+// Risultato della conversione, per file e per parte
+export interface PartVerification {
+  name: string;
+  size: number;
+  verified: boolean;
+  conformance: string | null;
+  violations: PdfAViolation[];
+  bookmark?: string;
+  // Pagine della parte e intervallo corrispondente nel documento di partenza
+  pageCount: number;
+  startPage: number;
+  endPage: number;
+}
+
+export interface ConvertedFile {
+  originalName: string;
+  outputName: string;
+  outputSize: number;
+  pageCount: number;
+  wasSplit: boolean;
+  parts?: number;
+  verified: boolean;
+  conformance: string | null;
+  violations: PdfAViolation[];
+  partsDetail?: PartVerification[];
+  // Firme digitali trovate nell'originale. passthrough indica un file incluso senza conversione:
+  // "signed" per scelta dell'utente, "compliant" perché già PDF/A del livello richiesto
+  signatures?: SignatureInfo[];
+  passthrough?: "signed" | "compliant";
+  // Firme della busta .p7m di origine: la copia PDF/A prodotta non è firmata
+  cades?: CadesSignature[];
+}
+
+export interface ConversionResult {
+  sessionId: string;
+  files: ConvertedFile[];
+  totalSize: number;
+  sizeLimit: SizeLimit;
+  pdfaLevel: PdfALevelId;
+  quality: QualitySettings;
+  ocr: boolean;
+  // Fino a questa data i file restano scaricabili, anche più volte
+  expiresAt: string;
+  emailSent: boolean;
+}
+
+export interface SignedFileReport {
+  fileIndex: number;
+  name: string;
+  signatures: SignatureInfo[];
+}
+
+// File firmati in attesa della scelta dell'utente (phase "awaiting-decision")
+export interface SignatureCheck {
+  files: SignedFileReport[];
+  allowPassthrough: boolean;
+}
+
+// File protetti da password in attesa della password (phase "awaiting-password");
+// retry indica che almeno una password inviata non era valida
+export interface PasswordCheck {
+  files: { fileIndex: number; name: string }[];
+  retry: boolean;
+}
+
+export const JOB_PHASES = [
+  "awaiting-password",
+  "awaiting-decision",
+  "queued",
+  "ocr",
+  "converting",
+  "splitting",
+  "verifying",
+  "done",
+  "error",
+  "cancelled",
+] as const;
+
+export type JobPhase = (typeof JOB_PHASES)[number];
+
+// Posizione in coda e avvio stimato di un job in attesa (server/queue.ts)
+export interface QueueStatus {
+  position: number;
+  estimatedStart: string;
+}
+
+export interface JobFileStatus {
+  name: string;
+  status: "pending" | "processing" | "done" | "error";
+  result: ConvertedFile | null;
+  error: string | null;
+}
+
+// Stato del job restituito da GET /api/jobs/:id; salvato anche in job.json
+// nella cartella della sessione, così resta consultabile finché esistono i file
+export interface JobStatus {
+  id: string;
+  phase: JobPhase;
+  createdAt: string;
+  updatedAt: string;
+  queue: QueueStatus | null;
+  passwordCheck: PasswordCheck | null;
+  signatureCheck: SignatureCheck | null;
+  files: JobFileStatus[];
+  result: ConversionResult | null;
+  error: string | null;
+}
+
+// Eventi di avanzamento inviati su /api/progress/:sessionId.
+// Lo stato dell'interfaccia si ricava dai campi strutturati; message è la riga
+// leggibile del log di elaborazione, presente quando l'evento va mostrato nel log.
+// fileIndex è la posizione del file nel job (il documento unito in modalità unione),
+// percent l'avanzamento della fase corrente di quel file.
+
+const fileIndexSchema = z.number().int().min(0);
+const percentSchema = z.number().min(0).max(100);
+
+// Schemi dei payload più grandi (risultato, richieste all'utente), vincolati alle
+// interfacce qui sopra: un campo aggiunto all'interfaccia va aggiunto anche qui
+const pdfaViolationSchema: z.ZodType<PdfAViolation> = z.object({
+  rule: z.enum([
+    "structure", "encryption", "xmp-metadata", "info-consistency", "output-intent",
+    "font-embedding", "actions", "transparency", "lzw",
+  ]),
+  message: z.string(),
+  object: z.string().optional(),
+});
+
+const signatureInfoSchema: z.ZodType<SignatureInfo> = z.object({
+  fieldName: z.string().nullable(),
+  signer: z.string().nullable(),
+  signingTime: z.string().nullable(),
+  subFilter: z.string().nullable(),
+});
+
+const cadesSignatureSchema: z.ZodType<CadesSignature> = z.object({
+  signer: z.string().nullable(),
+  signingTime: z.string().nullable(),
+  signatureValid: z.boolean(),
+  certificateIssuer: z.string().nullable(),
+  certificateNotBefore: z.string().nullable(),
+  certificateNotAfter: z.string().nullable(),
+  certificateInPeriod: z.boolean(),
+  chainVerified: z.boolean().nullable(),
+});
+
+const partVerificationSchema: z.ZodType<PartVerification> = z.object({
+  name: z.string(),
+  size: z.number().min(0),
+  verified: z.boolean(),
+  conformance: z.string().nullable(),
+  violations: z.array(pdfaViolationSchema),
+  bookmark: z.string().optional(),
+  pageCount: z.number().int().min(0),
+  startPage: z.number().int().min(1),
+  endPage: z.number().int().min(1),
+});
+
+const convertedFileSchema: z.ZodType<ConvertedFile> = z.object({
+  originalName: z.string(),
+  outputName: z.string(),
+  outputSize: z.number().min(0),
+  pageCount: z.number().int().min(0),
+  wasSplit: z.boolean(),
+  parts: z.number().int().min(1).optional(),
+  verified: z.boolean(),
+  conformance: z.string().nullable(),
+  violations: z.array(pdfaViolationSchema),
+  partsDetail: z.array(partVerificationSchema).optional(),
+  signatures: z.array(signatureInfoSchema).optional(),
+  passthrough: z.enum(["signed", "compliant"]).optional(),
+  cades: z.array(cadesSignatureSchema).optional(),
+});
+
+export const conversionResultSchema: z.ZodType<ConversionResult> = z.object({
+  sessionId: z.string(),
+  files: z.array(convertedFileSchema),
+  totalSize: z.number().min(0),
+  sizeLimit: z.object({
+    presetId: z.enum(["sigit", "pct", "pat", "penale", "custom"]),
+    label: z.string(),
+    maxSizeMB: z.number().positive(),
+  }),
+  pdfaLevel: z.enum(["1b", "2b", "3b"]),
+  quality: z.object({
+    profileId: z.enum(["screen", "ebook", "printer", "custom"]),
+    label: z.string(),
+    pdfSettings: z.enum(["/screen", "/ebook", "/printer"]),
+    colorDpi: z.number().int().positive(),
+    grayDpi: z.number().int().positive(),
+    monoDpi: z.number().int().positive(),
+  }),
+  ocr: z.boolean(),
+  expiresAt: z.string(),
+  emailSent: z.boolean(),
+});
+
+export const signatureCheckSchema: z.ZodType<SignatureCheck> = z.object({
+  files: z.array(z.object({
+    fileIndex: fileIndexSchema,
+    name: z.string(),
+    signatures: z.array(signatureInfoSchema),
+  })),
+  allowPassthrough: z.boolean(),
+});
+
+export const passwordCheckSchema: z.ZodType<PasswordCheck> = z.object({
+  files: z.array(z.object({ fileIndex: fileIndexSchema, name: z.string() })),
+  retry: z.boolean(),
+});
+
+export const PROGRESS_STAGES = ["ocr", "converting", "splitting"] as const;
+
+export type ProgressStage = (typeof PROGRESS_STAGES)[number];
+
+export const progressEventSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("log"),
+    message: z.string(),
+  }),
+  z.object({
+    type: z.literal("phase-changed"),
+    phase: z.enum(JOB_PHASES),
+    fileIndex: fileIndexSchema.optional(),
+    message: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal("file-started"),
+    fileIndex: fileIndexSchema,
+    fileCount: z.number().int().min(1),
+    name: z.string(),
+    sizeBytes: z.number().min(0),
+    message: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal("chunk-progress"),
+    fileIndex: fileIndexSchema,
+    stage: z.enum(PROGRESS_STAGES),
+    current: z.number().int().min(0),
+    total: z.number().int().min(1),
+    percent: percentSchema,
+    message: z.string().optional(),
+  }),
+  // Pagine completate secondo Ghostscript, con stima in secondi del tempo residuo
+  // (null finché non c'è almeno una pagina); senza message, non entra nel registro
+  z.object({
+    type: z.literal("page-progress"),
+    fileIndex: fileIndexSchema,
+    stage: z.enum(PROGRESS_STAGES),
+    pagesDone: z.number().int().min(0),
+    totalPages: z.number().int().min(1),
+    percent: percentSchema,
+    etaSeconds: z.number().int().min(0).nullable(),
+    message: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal("part-finished"),
+    fileIndex: fileIndexSchema,
+    part: z.number().int().min(1),
+    partCount: z.number().int().min(1),
+    name: z.string(),
+    sizeBytes: z.number().min(0),
+    withinLimit: z.boolean(),
+    verified: z.boolean(),
+    conformance: z.string().nullable(),
+    percent: percentSchema,
+    message: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal("verification"),
+    fileIndex: fileIndexSchema,
+    name: z.string(),
+    verified: z.boolean(),
+    conformance: z.string().nullable(),
+    violationCount: z.number().int().min(0),
+    message: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal("warning"),
+    fileIndex: fileIndexSchema.optional(),
+    message: z.string(),
+  }),
+  z.object({
+    type: z.literal("queue"),
+    position: z.number().int().min(1),
+    estimatedStart: z.string(),
+    message: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal("signatures"),
+    check: signatureCheckSchema,
+    message: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal("passwords"),
+    check: passwordCheckSchema,
+    message: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal("result"),
+    result: conversionResultSchema,
+    message: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal("error"),
+    fileIndex: fileIndexSchema.optional(),
+    message: z.string(),
+  }),
+  z.object({
+    type: z.literal("cancelled"),
+    message: z.string(),
+  }),
+]);
+
+export type ProgressEvent = z.infer<typeof progressEventSchema>;
+
+export function toPercent(current: number, total: number): number {
+  return total > 0 ? Math.min(100, Math.round((current / total) * 100)) : 0;
+}